@@ -19,7 +19,8 @@ window.fetch = async function (request, init) {
 
   if (
     urlString.includes("https://music.youtube.com/youtubei/v1/browse") ||
-    urlString.includes("https://music.youtube.com/youtubei/v1/next")
+    urlString.includes("https://music.youtube.com/youtubei/v1/next") ||
+    urlString.includes("https://music.youtube.com/youtubei/v1/player")
   ) {
     try {
       const requestToFetch = typeof request === "string" ? request : request.clone();
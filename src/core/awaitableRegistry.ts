@@ -0,0 +1,66 @@
+/**
+ * @fileoverview Map whose entries can be awaited before they are written,
+ * for data that arrives with a page response some time after it is first needed.
+ */
+
+export interface WaitOptions {
+  /** Stops waiting early, the wait then resolves with undefined */
+  signal?: AbortSignal;
+  /** How long to wait for the entry before resolving with undefined */
+  timeoutMs: number;
+}
+
+export interface AwaitableRegistry<K, V> {
+  has(key: K): boolean;
+  get(key: K): V | undefined;
+  /** Stores an entry and resolves everyone waiting for it */
+  set(key: K, value: V): void;
+  /**
+   * Resolves with the entry once it is written, right away if it already is.
+   * Never rejects: timing out or being aborted resolves with undefined, so callers fall back the same way for both.
+   */
+  waitFor(key: K, options: WaitOptions): Promise<V | undefined>;
+}
+
+export function createAwaitableRegistry<K, V>(): AwaitableRegistry<K, V> {
+  const entries = new Map<K, V>();
+  const waiters = new Map<K, Set<(value: V | undefined) => void>>();
+
+  return {
+    has: key => entries.has(key),
+    get: key => entries.get(key),
+    set(key, value) {
+      entries.set(key, value);
+      // Copied since every waiter removes itself once it is resolved
+      [...(waiters.get(key) ?? [])].forEach(resolve => resolve(value));
+    },
+    waitFor(key, { signal, timeoutMs }) {
+      if (entries.has(key)) {
+        return Promise.resolve(entries.get(key));
+      }
+      if (signal?.aborted || timeoutMs <= 0) {
+        return Promise.resolve(undefined);
+      }
+
+      return new Promise(resolve => {
+        const keyWaiters = waiters.get(key) ?? new Set();
+        waiters.set(key, keyWaiters);
+
+        const finish = (value: V | undefined) => {
+          clearTimeout(timeout);
+          signal?.removeEventListener("abort", onAbort);
+          keyWaiters.delete(finish);
+          if (keyWaiters.size === 0 && waiters.get(key) === keyWaiters) {
+            waiters.delete(key);
+          }
+          resolve(value);
+        };
+        const onAbort = () => finish(undefined);
+        const timeout = setTimeout(() => finish(undefined), timeoutMs);
+
+        keyWaiters.add(finish);
+        signal?.addEventListener("abort", onAbort, { once: true });
+      });
+    },
+  };
+}
@@ -15,6 +15,8 @@ export const USER_SCROLLING_CLASS: string = "blyrics-user-scrolling";
 export const TRANSLATED_LYRICS_CLASS: string = "blyrics--translated";
 export const ROMANIZED_LYRICS_CLASS: string = "blyrics--romanized";
 export const ERROR_LYRICS_CLASS: string = "blyrics--error";
+export const UNMAPPED_LYRIC_CLASS: string = "blyrics--unmapped";
+export const UNCOVERED_REGION_CLASS: string = "blyrics-uncovered-region";
 export const FOOTER_CLASS: string = "blyrics-footer";
 export const WATERMARK_CLASS: string = "blyrics-watermark";
 export const TIME_INFO_CLASS: string = "time-info style-scope ytmusic-player-bar";
@@ -164,6 +166,21 @@ export const NO_LYRICS_TEXT: string = "No lyrics found for this song";
 export const MUSIC_NOTES: string = "♪𝅘𝅥𝅮𝅘𝅥𝅯𝅘𝅥𝅰𝅘𝅥𝅱𝅘𝅥𝅲";
 
 export const DEFAULT_LINE_SYNCED_WORD_DELAY_MS = 50;
+export const TIMING_OFFSET_SMALL_STEP_MS = 50;
+export const TIMING_OFFSET_LARGE_STEP_MS = 250;
+export const DEFAULT_MATCH_MIN_SCORE = 0.6;
+export const DEFAULT_MATCH_MIN_TEXT_SIMILARITY = 0.5;
+export const DEFAULT_MATCH_MAX_DURATION_DELTA_S = 10;
+export const DEFAULT_PREFETCH_COUNT = 2;
+export const PREFETCH_CONCURRENCY = 2;
+/** Longest a prefetch waits for the page to go idle before it starts anyway */
+export const PREFETCH_IDLE_TIMEOUT_MS = 5000;
+/** chrome.storage.local key holding the provider health records */
+export const PROVIDER_HEALTH_KEY = "providerHealth";
+/** chrome.storage.local key holding the sniffer self-check records */
+export const SNIFFER_HEALTH_KEY = "snifferHealth";
+/** Prefix of the sniffer self-check fields recorded for DOM hooks rather than response fields */
+export const DOM_FIELD_PREFIX = "dom.";
 
 export const PLAYER_BAR_SELECTOR: string = "ytmusic-player-bar";
 export const AD_PLAYING_ATTR: string = "is-advertisement";
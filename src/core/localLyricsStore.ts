@@ -0,0 +1,147 @@
+/**
+ * @fileoverview Storage for user supplied lyric files.
+ * Kept free of content-script imports so the options page can use it as well.
+ */
+
+export type LocalLyricsFormat = "lrc" | "ttml" | "srt" | "vtt" | "plain";
+
+export interface LocalLyricsEntry {
+  id: string;
+  format: LocalLyricsFormat;
+  text: string;
+  videoId: string | null;
+  song: string | null;
+  artist: string | null;
+  /** Duration in seconds, used to disambiguate song/artist matches */
+  duration: number | null;
+  fileName: string | null;
+  importedAt: number;
+}
+
+export interface LocalLyricsQuery {
+  videoId: string;
+  song: string;
+  artist: string;
+  duration: number;
+}
+
+const LOCAL_LYRICS_PREFIX = "localLyrics_";
+
+/** Maximum difference in seconds for a song/artist fallback match */
+const DURATION_MATCH_TOLERANCE_S = 3;
+
+/**
+ * Guesses the format of a lyric file from its name and contents.
+ *
+ * @param text - Raw file contents
+ * @param fileName - Optional file name to use the extension as a hint
+ */
+export function detectLyricsFormat(text: string, fileName?: string | null): LocalLyricsFormat {
+  const extension = fileName?.split(".").pop()?.toLowerCase();
+  if (extension === "ttml" || extension === "xml") {
+    return "ttml";
+  }
+  if (extension === "lrc") {
+    return "lrc";
+  }
+  if (extension === "srt" || extension === "vtt") {
+    return extension;
+  }
+
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith("<") && /<tt[\s>]/.test(trimmed)) {
+    return "ttml";
+  }
+  if (trimmed.startsWith("WEBVTT")) {
+    return "vtt";
+  }
+  if (/^\s*(\d+:)?\d+:\d+,\d+\s*-->/m.test(text)) {
+    return "srt";
+  }
+  if (/^\s*\[\d+:\d+(\.\d+)?\]/m.test(text)) {
+    return "lrc";
+  }
+  return "plain";
+}
+
+/**
+ * Reads the [ti:], [ar:] and [length:] ID tags of an LRC file so imports can be keyed without user input.
+ */
+export function readLrcMetadata(text: string): { song: string | null; artist: string | null; duration: number | null } {
+  const tag = (name: string) => text.match(new RegExp(`^\\s*\\[${name}:(.*)\\]\\s*$`, "mi"))?.[1].trim() || null;
+
+  let duration: number | null = null;
+  const length = tag("length");
+  if (length) {
+    const [minutes, seconds] = length.split(":");
+    duration = seconds === undefined ? Number(minutes) : Number(minutes) * 60 + Number(seconds);
+    if (isNaN(duration)) {
+      duration = null;
+    }
+  }
+
+  return { song: tag("ti"), artist: tag("ar"), duration };
+}
+
+function normalizeForMatch(value: string | null): string {
+  return (value || "").trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Lists every imported lyric file.
+ */
+export async function getLocalLyricsEntries(): Promise<LocalLyricsEntry[]> {
+  const result = await chrome.storage.local.get(null);
+  return Object.keys(result)
+    .filter(key => key.startsWith(LOCAL_LYRICS_PREFIX))
+    .map(key => result[key] as LocalLyricsEntry)
+    .sort((a, b) => b.importedAt - a.importedAt);
+}
+
+/**
+ * Saves an imported lyric file. An entry needs either a video id or a song and artist to be matchable.
+ *
+ * @returns The stored entry
+ */
+export async function saveLocalLyrics(
+  entry: Omit<LocalLyricsEntry, "id" | "importedAt"> & { id?: string }
+): Promise<LocalLyricsEntry> {
+  if (!entry.videoId && !(entry.song && entry.artist)) {
+    throw new Error("Local lyrics need a video id or a song and artist name");
+  }
+
+  const id = entry.id ?? `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+  const storedEntry: LocalLyricsEntry = { ...entry, id, importedAt: Date.now() };
+  await chrome.storage.local.set({ [LOCAL_LYRICS_PREFIX + id]: storedEntry });
+  return storedEntry;
+}
+
+export async function deleteLocalLyrics(id: string): Promise<void> {
+  await chrome.storage.local.remove(LOCAL_LYRICS_PREFIX + id);
+}
+
+/**
+ * Finds the imported lyrics for a song. An exact video id match always wins,
+ * otherwise the newest entry whose song and artist match (and whose duration is close, if known) is used.
+ */
+export async function findLocalLyrics(query: LocalLyricsQuery): Promise<LocalLyricsEntry | null> {
+  const entries = await getLocalLyricsEntries();
+
+  const byVideoId = entries.find(entry => entry.videoId === query.videoId);
+  if (byVideoId) {
+    return byVideoId;
+  }
+
+  const song = normalizeForMatch(query.song);
+  const artist = normalizeForMatch(query.artist);
+  return (
+    entries.find(entry => {
+      if (normalizeForMatch(entry.song) !== song || normalizeForMatch(entry.artist) !== artist) {
+        return false;
+      }
+      return (
+        !entry.duration || !query.duration || Math.abs(entry.duration - query.duration) <= DURATION_MATCH_TOLERANCE_S
+      );
+    }) ?? null
+  );
+}
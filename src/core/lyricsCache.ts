@@ -0,0 +1,196 @@
+/**
+ * @fileoverview Size-bounded cache for provider lyrics and translations.
+ * Entries are evicted least recently used first once the cache grows past the user's byte budget,
+ * and entries of pinned songs are never evicted or expired.
+ * The cache lives in IndexedDB (see lyricsDb.ts). Extension pages use it directly,
+ * content scripts go through the background since they can't open the extension's database.
+ * Kept free of content-script imports so the options page can use it as well.
+ */
+
+import { type CachedLyricsInput, lyricsDbMethods, rewriteLyrics } from "./lyricsDb";
+
+export {
+  DEFAULT_LYRICS_CACHE_BUDGET,
+  getLyricsCacheBudget,
+  getLyricsCacheKey,
+  LYRICS_CACHE_BUDGET_KEY,
+  LYRICS_CACHE_PREFIX,
+  type LyricsCacheEntry,
+  type LyricsCacheStats,
+  type PinnedSong,
+  type PinnedSongMap,
+  parseLyricsCacheKey,
+} from "./lyricsDb";
+
+type LyricsDbMethods = typeof lyricsDbMethods;
+export type LyricsDbMethod = keyof LyricsDbMethods;
+
+/** Message a content script sends the background to run a database operation */
+export interface LyricsDbRequest<M extends LyricsDbMethod = LyricsDbMethod> {
+  action: "lyricsDb";
+  method: M;
+  args: Parameters<LyricsDbMethods[M]>;
+}
+
+export type LyricsDbResponse = { result: unknown } | { error: string };
+
+/** Sent by the background to extension pages after the cache changed */
+export const LYRICS_CACHE_CHANGED_ACTION = "lyricsCacheChanged";
+
+const hasDatabaseAccess = typeof location !== "undefined" && location.protocol.endsWith("-extension:");
+
+async function callDb<M extends LyricsDbMethod>(
+  method: M,
+  ...args: Parameters<LyricsDbMethods[M]>
+): Promise<Awaited<ReturnType<LyricsDbMethods[M]>>> {
+  if (hasDatabaseAccess) {
+    return (lyricsDbMethods[method] as (...args: unknown[]) => Promise<Awaited<ReturnType<LyricsDbMethods[M]>>>)(
+      ...args
+    );
+  }
+
+  const request: LyricsDbRequest<M> = { action: "lyricsDb", method, args };
+  const response: LyricsDbResponse | undefined = await chrome.runtime.sendMessage(request);
+  if (!response) {
+    throw new Error(`No response from the background for ${method}`);
+  }
+  if ("error" in response) {
+    throw new Error(response.error);
+  }
+  return response.result as Awaited<ReturnType<LyricsDbMethods[M]>>;
+}
+
+/**
+ * Makes sure cached lyrics of older versions no longer take up chrome.storage.local,
+ * which happens the first time the cache is used anyway.
+ */
+export function moveLegacyLyricsCache(): Promise<void> {
+  return callDb("prepare");
+}
+
+export function getPinnedSongs() {
+  return callDb("getPins");
+}
+
+export async function isSongPinned(videoId: string): Promise<boolean> {
+  return videoId in (await getPinnedSongs());
+}
+
+/**
+ * Pins a song so its cached lyrics are kept until it is unpinned.
+ */
+export function pinSong(videoId: string, song: string, artist: string): Promise<void> {
+  return callDb("pinSong", videoId, song, artist);
+}
+
+export function unpinSong(videoId: string): Promise<void> {
+  return callDb("unpinSong", videoId);
+}
+
+/**
+ * Lists every cache entry, least recently used first.
+ */
+export function listLyricsCache() {
+  return callDb("listLyrics");
+}
+
+/**
+ * Counts the cached results of a single source.
+ */
+export function countCachedLyrics(source: string): Promise<number> {
+  return callDb("countLyrics", source);
+}
+
+/**
+ * Reads the cache stats, which are kept up to date on every write instead of being recounted.
+ */
+export function getLyricsCacheStats() {
+  return callDb("getStats");
+}
+
+/**
+ * Reads cached lyrics and marks them as recently used.
+ *
+ * @returns The cached value, or null if there is none or it went idle for too long
+ */
+export function getCachedLyrics(videoId: string, source: string): Promise<string | null> {
+  return callDb("getLyrics", videoId, source);
+}
+
+/**
+ * Evicts least recently used unpinned entries until the cache fits its budget,
+ * and drops unpinned entries that went idle for too long.
+ *
+ * @param budget - Byte budget to fit, defaults to the user's setting
+ * @returns The number of removed entries
+ */
+export function enforceLyricsCacheBudget(budget?: number): Promise<number> {
+  return callDb("enforceBudget", budget);
+}
+
+/**
+ * Caches the lyrics of a song, then evicts older entries if the cache went over budget.
+ *
+ * @param videoId - Song the lyrics belong to
+ * @param values - Serialized lyrics by source
+ * @param details - Song details, shown when browsing the cache
+ */
+export function setCachedLyrics(
+  videoId: string,
+  values: Record<string, string>,
+  details?: { song: string; artist: string }
+): Promise<void> {
+  const inputs: CachedLyricsInput[] = Object.entries(values).map(([source, value]) => ({
+    videoId,
+    source,
+    value,
+    song: details?.song,
+    artist: details?.artist,
+  }));
+  return callDb("putLyrics", inputs);
+}
+
+/**
+ * Removes the given cache entries.
+ *
+ * @param keys - Keys of the entries, as listed by {@link listLyricsCache}
+ */
+export function deleteCachedLyrics(keys: string[]): Promise<void> {
+  return callDb("deleteLyrics", keys);
+}
+
+/**
+ * Removes every unpinned entry and all cached translations.
+ */
+export function clearLyricsCache(): Promise<void> {
+  return callDb("clearLyrics");
+}
+
+/**
+ * Rewrites the value of every cache entry in place. Only available in extension pages,
+ * since the transform can't be sent to the background.
+ *
+ * @param transform - Returns the new value, or null to remove the entry
+ * @returns How many entries were rewritten and how many were removed
+ */
+export function rewriteLyricsCache(
+  transform: (value: string, key: string) => string | null
+): Promise<{ rewritten: number; removed: number }> {
+  if (!hasDatabaseAccess) {
+    return Promise.reject(new Error("The lyrics cache can only be rewritten from extension pages"));
+  }
+  return rewriteLyrics(transform);
+}
+
+/**
+ * Reads a cached translation or romanization.
+ *
+ * @param key - Identifies the text, target language and kind of translation
+ */
+export async function getCachedTranslation<T>(key: string): Promise<T | null> {
+  return (await callDb("getTranslation", key)) as T | null;
+}
+
+export function setCachedTranslation(key: string, value: unknown): Promise<void> {
+  return callDb("putTranslation", key, value);
+}
@@ -0,0 +1,565 @@
+/**
+ * @fileoverview IndexedDB store holding cached lyrics, pinned songs and translations.
+ * IndexedDB is scoped to the origin and content scripts run with the YouTube Music origin,
+ * so only extension pages (the background worker and the options page) open the database.
+ * Content scripts reach it through the background, see lyricsCache.ts.
+ */
+
+const DB_NAME = "betterLyrics";
+const DB_VERSION = 1;
+
+const LYRICS_STORE = "lyrics";
+const PINS_STORE = "pins";
+const TRANSLATIONS_STORE = "translations";
+const META_STORE = "meta";
+
+const STATS_KEY = "stats";
+
+export const LYRICS_CACHE_PREFIX = "blyrics_";
+/** chrome.storage.sync key holding the byte budget */
+export const LYRICS_CACHE_BUDGET_KEY = "lyricsCacheBudget";
+export const DEFAULT_LYRICS_CACHE_BUDGET = 2 * 1024 * 1024;
+
+/** chrome.storage.local keys the cache used before it moved to IndexedDB */
+const LEGACY_ACCESS_KEY = "lyricsCacheAccess";
+const LEGACY_PINS_KEY = "lyricsCachePins";
+/** Lifetime of entries written before last-access tracking, used to estimate when they were written */
+const LEGACY_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Unpinned entries nobody read for this long are dropped even when the cache is under budget */
+const MAX_IDLE_MS = 30 * 24 * 60 * 60 * 1000;
+/** Translations and romanizations kept, the least recently used ones are dropped beyond this */
+const MAX_TRANSLATIONS = 5000;
+
+export interface LyricsCacheEntry {
+  key: string;
+  videoId: string;
+  source: string;
+  value: string;
+  song: string | null;
+  artist: string | null;
+  /** Approximate size in bytes */
+  size: number;
+  cachedAt: number;
+  lastAccess: number;
+  /** When the entry expires unless it is used again, null for pinned songs which keeps them out of the expiry index */
+  expiresAt: number | null;
+  pinned: boolean;
+}
+
+export interface PinnedSong {
+  videoId: string;
+  song: string;
+  artist: string;
+  pinnedAt: number;
+}
+
+export type PinnedSongMap = Record<string, PinnedSong>;
+
+export interface LyricsCacheStats {
+  count: number;
+  size: number;
+  budget: number;
+  pinnedCount: number;
+}
+
+export interface CachedLyricsInput {
+  videoId: string;
+  source: string;
+  value: string;
+  song?: string | null;
+  artist?: string | null;
+}
+
+interface StatsRecord {
+  name: typeof STATS_KEY;
+  count: number;
+  size: number;
+}
+
+interface TranslationRecord {
+  key: string;
+  value: unknown;
+  lastAccess: number;
+}
+
+export function getLyricsCacheKey(videoId: string, source: string): string {
+  return `${LYRICS_CACHE_PREFIX}${videoId}_${source}`;
+}
+
+/**
+ * Splits a cache key into its video id and source. Video ids may contain underscores but source keys don't,
+ * so the source starts after the last one.
+ */
+export function parseLyricsCacheKey(key: string): { videoId: string; source: string } | null {
+  if (!key.startsWith(LYRICS_CACHE_PREFIX)) {
+    return null;
+  }
+  const separator = key.lastIndexOf("_");
+  if (separator < LYRICS_CACHE_PREFIX.length) {
+    return null;
+  }
+  return { videoId: key.slice(LYRICS_CACHE_PREFIX.length, separator), source: key.slice(separator + 1) };
+}
+
+export async function getLyricsCacheBudget(): Promise<number> {
+  const result = await chrome.storage.sync.get({ [LYRICS_CACHE_BUDGET_KEY]: DEFAULT_LYRICS_CACHE_BUDGET });
+  return Number(result[LYRICS_CACHE_BUDGET_KEY]) || DEFAULT_LYRICS_CACHE_BUDGET;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("Transaction aborted"));
+  });
+}
+
+/**
+ * Walks a cursor, calling the visitor for every record until it returns false.
+ */
+async function iterate<T>(
+  request: IDBRequest<IDBCursorWithValue | null>,
+  visit: (value: T, cursor: IDBCursorWithValue) => boolean | void
+): Promise<void> {
+  let cursor = await promisify(request);
+  while (cursor) {
+    if (visit(cursor.value as T, cursor) === false) {
+      return;
+    }
+    cursor.continue();
+    cursor = await promisify(request);
+  }
+}
+
+function entrySize(entry: Omit<LyricsCacheEntry, "size">): number {
+  return JSON.stringify(entry).length;
+}
+
+async function adjustStats(meta: IDBObjectStore, countDelta: number, sizeDelta: number): Promise<void> {
+  const stats = ((await promisify(meta.get(STATS_KEY))) as StatsRecord | undefined) ?? {
+    name: STATS_KEY,
+    count: 0,
+    size: 0,
+  };
+  stats.count = Math.max(stats.count + countDelta, 0);
+  stats.size = Math.max(stats.size + sizeDelta, 0);
+  meta.put(stats);
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const lyrics = db.createObjectStore(LYRICS_STORE, { keyPath: "key" });
+        lyrics.createIndex("videoId", "videoId");
+        lyrics.createIndex("source", "source");
+        lyrics.createIndex("expiresAt", "expiresAt");
+        lyrics.createIndex("lastAccess", "lastAccess");
+        db.createObjectStore(PINS_STORE, { keyPath: "videoId" });
+        const translations = db.createObjectStore(TRANSLATIONS_STORE, { keyPath: "key" });
+        translations.createIndex("lastAccess", "lastAccess");
+        db.createObjectStore(META_STORE, { keyPath: "name" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    })
+      .then(async db => {
+        await migrateFromStorage(db);
+        return db;
+      })
+      .catch(err => {
+        dbPromise = null;
+        throw err;
+      });
+  }
+  return dbPromise;
+}
+
+/**
+ * Moves the entries the cache kept in chrome.storage.local before it used IndexedDB.
+ * Runs the first time a page opens the database.
+ */
+async function migrateFromStorage(db: IDBDatabase): Promise<void> {
+  const storage = await chrome.storage.local.get(null);
+  const legacyKeys = Object.keys(storage).filter(key => parseLyricsCacheKey(key));
+  if (legacyKeys.length === 0 && !storage[LEGACY_ACCESS_KEY] && !storage[LEGACY_PINS_KEY]) {
+    return;
+  }
+
+  const access: Record<string, number> = storage[LEGACY_ACCESS_KEY] || {};
+  const pins: Record<string, Omit<PinnedSong, "videoId">> = storage[LEGACY_PINS_KEY] || {};
+
+  const transaction = db.transaction([LYRICS_STORE, PINS_STORE, META_STORE], "readwrite");
+  const lyrics = transaction.objectStore(LYRICS_STORE);
+  let count = 0;
+  let size = 0;
+
+  Object.entries(pins).forEach(([videoId, pin]) => {
+    transaction.objectStore(PINS_STORE).put({ ...pin, videoId });
+  });
+  for (const key of legacyKeys) {
+    const { videoId, source } = parseLyricsCacheKey(key)!;
+    const item = storage[key] as { value: string; cachedAt?: number; expiry?: number; song?: string; artist?: string };
+    // Another extension page may be migrating at the same time
+    const existing = (await promisify(lyrics.get(key))) as LyricsCacheEntry | undefined;
+    if (typeof item?.value !== "string" || existing) {
+      continue;
+    }
+
+    const cachedAt = item.cachedAt ?? (item.expiry ? item.expiry - LEGACY_TTL_MS : Date.now());
+    const lastAccess = access[key] ?? cachedAt;
+    const pinned = videoId in pins;
+    const entry = {
+      key,
+      videoId,
+      source,
+      value: item.value,
+      song: item.song ?? pins[videoId]?.song ?? null,
+      artist: item.artist ?? pins[videoId]?.artist ?? null,
+      cachedAt,
+      lastAccess,
+      expiresAt: pinned ? null : lastAccess + MAX_IDLE_MS,
+      pinned,
+    };
+    const entryWithSize = { ...entry, size: entrySize(entry) };
+    lyrics.put(entryWithSize);
+    count++;
+    size += entryWithSize.size;
+  }
+  await adjustStats(transaction.objectStore(META_STORE), count, size);
+  await transactionDone(transaction);
+
+  await chrome.storage.local.remove([...legacyKeys, LEGACY_ACCESS_KEY, LEGACY_PINS_KEY]);
+  console.log(`[BetterLyrics] Moved ${count} cached lyrics to IndexedDB`);
+}
+
+/**
+ * Opens the database, which moves entries left in chrome.storage.local by older versions.
+ */
+async function prepare(): Promise<void> {
+  await openDb();
+}
+
+/**
+ * Reads cached lyrics and marks them as recently used.
+ *
+ * @returns The cached value, or null if there is none or it expired
+ */
+async function getLyrics(videoId: string, source: string): Promise<string | null> {
+  const db = await openDb();
+  const transaction = db.transaction([LYRICS_STORE, META_STORE], "readwrite");
+  const lyrics = transaction.objectStore(LYRICS_STORE);
+
+  const now = Date.now();
+  const entry = (await promisify(lyrics.get(getLyricsCacheKey(videoId, source)))) as LyricsCacheEntry | undefined;
+  let value: string | null = null;
+  if (entry && entry.expiresAt !== null && entry.expiresAt <= now) {
+    lyrics.delete(entry.key);
+    await adjustStats(transaction.objectStore(META_STORE), -1, -entry.size);
+  } else if (entry) {
+    entry.lastAccess = now;
+    entry.expiresAt = entry.pinned ? null : now + MAX_IDLE_MS;
+    lyrics.put(entry);
+    value = entry.value;
+  }
+
+  await transactionDone(transaction);
+  return value;
+}
+
+/**
+ * Caches lyrics, then evicts older entries if the cache went over budget.
+ */
+async function putLyrics(inputs: CachedLyricsInput[]): Promise<void> {
+  if (inputs.length === 0) {
+    return;
+  }
+
+  const db = await openDb();
+  const transaction = db.transaction([LYRICS_STORE, PINS_STORE, META_STORE], "readwrite");
+  const lyrics = transaction.objectStore(LYRICS_STORE);
+  const pins = transaction.objectStore(PINS_STORE);
+
+  const now = Date.now();
+  let countDelta = 0;
+  let sizeDelta = 0;
+  for (const input of inputs) {
+    const key = getLyricsCacheKey(input.videoId, input.source);
+    const pin = (await promisify(pins.get(input.videoId))) as PinnedSong | undefined;
+    const existing = (await promisify(lyrics.get(key))) as LyricsCacheEntry | undefined;
+
+    const entry = {
+      key,
+      videoId: input.videoId,
+      source: input.source,
+      value: input.value,
+      song: input.song ?? existing?.song ?? pin?.song ?? null,
+      artist: input.artist ?? existing?.artist ?? pin?.artist ?? null,
+      cachedAt: now,
+      lastAccess: now,
+      expiresAt: pin ? null : now + MAX_IDLE_MS,
+      pinned: Boolean(pin),
+    };
+    const size = entrySize(entry);
+    lyrics.put({ ...entry, size });
+    countDelta += existing ? 0 : 1;
+    sizeDelta += size - (existing?.size ?? 0);
+  }
+  await adjustStats(transaction.objectStore(META_STORE), countDelta, sizeDelta);
+  await transactionDone(transaction);
+
+  await enforceBudget();
+}
+
+async function deleteLyrics(keys: string[]): Promise<void> {
+  const db = await openDb();
+  const transaction = db.transaction([LYRICS_STORE, META_STORE], "readwrite");
+  const lyrics = transaction.objectStore(LYRICS_STORE);
+
+  let count = 0;
+  let size = 0;
+  for (const key of keys) {
+    const entry = (await promisify(lyrics.get(key))) as LyricsCacheEntry | undefined;
+    if (entry) {
+      lyrics.delete(key);
+      count++;
+      size += entry.size;
+    }
+  }
+  await adjustStats(transaction.objectStore(META_STORE), -count, -size);
+  await transactionDone(transaction);
+}
+
+/**
+ * Lists every cache entry, least recently used first.
+ */
+async function listLyrics(): Promise<LyricsCacheEntry[]> {
+  const db = await openDb();
+  const transaction = db.transaction(LYRICS_STORE, "readonly");
+  return (await promisify(transaction.objectStore(LYRICS_STORE).index("lastAccess").getAll())) as LyricsCacheEntry[];
+}
+
+async function countLyrics(source: string): Promise<number> {
+  const db = await openDb();
+  const transaction = db.transaction(LYRICS_STORE, "readonly");
+  return promisify(transaction.objectStore(LYRICS_STORE).index("source").count(source));
+}
+
+async function getStats(): Promise<LyricsCacheStats> {
+  const db = await openDb();
+  const transaction = db.transaction([META_STORE, PINS_STORE], "readonly");
+  const stats = (await promisify(transaction.objectStore(META_STORE).get(STATS_KEY))) as StatsRecord | undefined;
+  const pinnedCount = await promisify(transaction.objectStore(PINS_STORE).count());
+  return { count: stats?.count ?? 0, size: stats?.size ?? 0, budget: await getLyricsCacheBudget(), pinnedCount };
+}
+
+/**
+ * Drops expired entries, then evicts the least recently used unpinned entries until the cache fits its budget.
+ *
+ * @param budget - Byte budget to fit, defaults to the user's setting
+ * @returns The number of removed entries
+ */
+async function enforceBudget(budget?: number): Promise<number> {
+  const limit = budget ?? (await getLyricsCacheBudget());
+  const db = await openDb();
+  const transaction = db.transaction([LYRICS_STORE, META_STORE], "readwrite");
+  const lyrics = transaction.objectStore(LYRICS_STORE);
+  const meta = transaction.objectStore(META_STORE);
+
+  let removed = 0;
+  let removedSize = 0;
+  // Pinned entries have no expiry, so they are not part of this index
+  await iterate<LyricsCacheEntry>(
+    lyrics.index("expiresAt").openCursor(IDBKeyRange.upperBound(Date.now())),
+    (entry, cursor) => {
+      cursor.delete();
+      removed++;
+      removedSize += entry.size;
+    }
+  );
+
+  const stats = ((await promisify(meta.get(STATS_KEY))) as StatsRecord | undefined) ?? { size: 0 };
+  let size = stats.size - removedSize;
+  if (size > limit) {
+    await iterate<LyricsCacheEntry>(lyrics.index("lastAccess").openCursor(), (entry, cursor) => {
+      if (size <= limit) {
+        return false;
+      }
+      if (!entry.pinned) {
+        cursor.delete();
+        removed++;
+        removedSize += entry.size;
+        size -= entry.size;
+      }
+    });
+  }
+
+  await adjustStats(meta, -removed, -removedSize);
+  await transactionDone(transaction);
+  return removed;
+}
+
+/**
+ * Removes every unpinned entry and all cached translations.
+ */
+async function clearLyrics(): Promise<void> {
+  const db = await openDb();
+  const transaction = db.transaction([LYRICS_STORE, TRANSLATIONS_STORE, META_STORE], "readwrite");
+
+  let removed = 0;
+  let removedSize = 0;
+  await iterate<LyricsCacheEntry>(transaction.objectStore(LYRICS_STORE).openCursor(), (entry, cursor) => {
+    if (!entry.pinned) {
+      cursor.delete();
+      removed++;
+      removedSize += entry.size;
+    }
+  });
+  transaction.objectStore(TRANSLATIONS_STORE).clear();
+  await adjustStats(transaction.objectStore(META_STORE), -removed, -removedSize);
+  await transactionDone(transaction);
+}
+
+/**
+ * Rewrites the value of every cache entry in place, keeping when it was last used.
+ *
+ * @param transform - Returns the new value, or null to remove the entry
+ * @returns How many entries were rewritten and how many were removed
+ */
+export async function rewriteLyrics(
+  transform: (value: string, key: string) => string | null
+): Promise<{ rewritten: number; removed: number }> {
+  const db = await openDb();
+  const transaction = db.transaction([LYRICS_STORE, META_STORE], "readwrite");
+
+  let rewritten = 0;
+  let removed = 0;
+  let sizeDelta = 0;
+  await iterate<LyricsCacheEntry>(transaction.objectStore(LYRICS_STORE).openCursor(), (entry, cursor) => {
+    let value: string | null;
+    try {
+      value = transform(entry.value, entry.key);
+    } catch {
+      value = null;
+    }
+
+    if (value === null) {
+      cursor.delete();
+      removed++;
+      sizeDelta -= entry.size;
+    } else if (value !== entry.value) {
+      const { size: _size, ...updated } = { ...entry, value };
+      const size = entrySize(updated);
+      cursor.update({ ...updated, size });
+      rewritten++;
+      sizeDelta += size - entry.size;
+    }
+  });
+  await adjustStats(transaction.objectStore(META_STORE), -removed, sizeDelta);
+  await transactionDone(transaction);
+  return { rewritten, removed };
+}
+
+async function getPins(): Promise<PinnedSongMap> {
+  const db = await openDb();
+  const transaction = db.transaction(PINS_STORE, "readonly");
+  const pins = (await promisify(transaction.objectStore(PINS_STORE).getAll())) as PinnedSong[];
+  return Object.fromEntries(pins.map(pin => [pin.videoId, pin]));
+}
+
+async function setPinned(videoId: string, pin: PinnedSong | null): Promise<void> {
+  const db = await openDb();
+  const transaction = db.transaction([LYRICS_STORE, PINS_STORE], "readwrite");
+  if (pin) {
+    transaction.objectStore(PINS_STORE).put(pin);
+  } else {
+    transaction.objectStore(PINS_STORE).delete(videoId);
+  }
+
+  const videoIdIndex = transaction.objectStore(LYRICS_STORE).index("videoId");
+  await iterate<LyricsCacheEntry>(videoIdIndex.openCursor(videoId), (entry, cursor) => {
+    cursor.update({ ...entry, pinned: Boolean(pin), expiresAt: pin ? null : entry.lastAccess + MAX_IDLE_MS });
+  });
+  await transactionDone(transaction);
+}
+
+async function pinSong(videoId: string, song: string, artist: string): Promise<void> {
+  await setPinned(videoId, { videoId, song, artist, pinnedAt: Date.now() });
+}
+
+async function unpinSong(videoId: string): Promise<void> {
+  await setPinned(videoId, null);
+}
+
+async function getTranslation(key: string): Promise<unknown | null> {
+  const db = await openDb();
+  const transaction = db.transaction(TRANSLATIONS_STORE, "readwrite");
+  const translations = transaction.objectStore(TRANSLATIONS_STORE);
+
+  const record = (await promisify(translations.get(key))) as TranslationRecord | undefined;
+  if (record) {
+    record.lastAccess = Date.now();
+    translations.put(record);
+  }
+  await transactionDone(transaction);
+  return record?.value ?? null;
+}
+
+async function putTranslation(key: string, value: unknown): Promise<void> {
+  const db = await openDb();
+  const transaction = db.transaction(TRANSLATIONS_STORE, "readwrite");
+  const translations = transaction.objectStore(TRANSLATIONS_STORE);
+  translations.put({ key, value, lastAccess: Date.now() } satisfies TranslationRecord);
+
+  let excess = (await promisify(translations.count())) - MAX_TRANSLATIONS;
+  if (excess > 0) {
+    await iterate(translations.index("lastAccess").openCursor(), (_record, cursor) => {
+      cursor.delete();
+      return --excess > 0;
+    });
+  }
+  await transactionDone(transaction);
+}
+
+/**
+ * Database operations by name, so content scripts can ask the background to run them.
+ * Arguments and results have to survive structured cloning.
+ */
+export const lyricsDbMethods = {
+  prepare,
+  getLyrics,
+  putLyrics,
+  deleteLyrics,
+  listLyrics,
+  countLyrics,
+  getStats,
+  enforceBudget,
+  clearLyrics,
+  getPins,
+  pinSong,
+  unpinSong,
+  getTranslation,
+  putTranslation,
+};
+
+/** Operations that change the cache, pages showing it are told to refresh after them */
+export const lyricsDbMutations: ReadonlySet<keyof typeof lyricsDbMethods> = new Set([
+  "putLyrics",
+  "deleteLyrics",
+  "enforceBudget",
+  "clearLyrics",
+  "pinSong",
+  "unpinSong",
+]);
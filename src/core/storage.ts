@@ -1,5 +1,6 @@
 import * as Utils from "@utils";
 import * as Constants from "@constants";
+import * as LyricsCache from "@core/lyricsCache";
 import { cachedDurations, cachedProperties } from "@modules/ui/animationEngine";
 
 async function decompressCSS(css: string): Promise<string> {
@@ -200,22 +201,14 @@ export async function setTransientStorage(key: string, value: any, ttl: number):
 }
 
 /**
- * Calculates current cache information including count and size of stored lyrics.
+ * Reads current cache information including count and size of stored lyrics.
  *
  * @returns {Promise<{count: number, size: number}>} Cache statistics
  */
 export async function getUpdatedCacheInfo(): Promise<{ count: number; size: number }> {
   try {
-    const result = await chrome.storage.local.get(null);
-    const lyricsKeys = Object.keys(result).filter(key => key.startsWith("blyrics_"));
-    const totalSize = lyricsKeys.reduce((acc, key) => {
-      const item = result[key];
-      return acc + JSON.stringify(item).length;
-    }, 0);
-    return {
-      count: lyricsKeys.length,
-      size: totalSize,
-    };
+    const { count, size } = await LyricsCache.getLyricsCacheStats();
+    return { count, size };
   } catch (error) {
     Utils.log(Constants.GENERAL_ERROR_LOG, error);
     return { count: 0, size: 0 };
@@ -231,13 +224,11 @@ export async function saveCacheInfo(): Promise<void> {
 }
 
 /**
- * Clears all cached lyrics data from local storage.
+ * Clears cached lyrics data from local storage, keeping the lyrics of pinned songs.
  */
 export async function clearCache(): Promise<void> {
   try {
-    const result = await chrome.storage.local.get(null);
-    const lyricsKeys = Object.keys(result).filter(key => key.startsWith("blyrics_"));
-    await chrome.storage.local.remove(lyricsKeys);
+    await LyricsCache.clearLyricsCache();
     await saveCacheInfo();
   } catch (error) {
     Utils.log(Constants.GENERAL_ERROR_LOG, error);
@@ -245,26 +236,13 @@ export async function clearCache(): Promise<void> {
 }
 
 /**
- * Removes expired cache entries from local storage.
- * Scans all BetterLyrics cache keys and removes those past their expiry time.
+ * Removes idle cache entries and evicts least recently used ones until the cache fits the user's budget.
  */
 export async function purgeExpiredKeys(): Promise<void> {
   try {
-    const now = Date.now();
-    const result = await chrome.storage.local.get(null);
-    const keysToRemove: string[] = [];
-
-    Object.keys(result).forEach(key => {
-      if (key.startsWith("blyrics_")) {
-        const { expiryTime } = result[key];
-        if (expiryTime && now >= expiryTime) {
-          keysToRemove.push(key);
-        }
-      }
-    });
-
-    if (keysToRemove.length) {
-      await chrome.storage.local.remove(keysToRemove);
+    const removed = await LyricsCache.enforceLyricsCacheBudget();
+    if (removed > 0) {
+      Utils.log(`[BetterLyrics] Evicted ${removed} cached lyrics`);
     }
   } catch (error) {
     Utils.log(Constants.GENERAL_ERROR_LOG, error);
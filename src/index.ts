@@ -5,11 +5,13 @@ import * as Settings from "@modules/settings/settings";
 import * as Constants from "@constants";
 import * as RequestSniffing from "@modules/lyrics/requestSniffer";
 import * as Lyrics from "@modules/lyrics/lyrics";
+import * as Prefetch from "@modules/lyrics/prefetch";
 import * as Storage from "@core/storage";
 import { initProviders } from "@modules/lyrics/providers/shared";
 import type { LyricsData } from "@modules/lyrics/injectLyrics";
+import type { LyricSourceResultWithMeta } from "@modules/lyrics/lyrics";
 import { animationEngine } from "@modules/ui/animationEngine";
-import { DEFAULT_LINE_SYNCED_WORD_DELAY_MS } from "@constants";
+import { DEFAULT_LINE_SYNCED_WORD_DELAY_MS, DEFAULT_PREFETCH_COUNT } from "@constants";
 
 export interface PlayerDetails {
   currentTime: number;
@@ -30,6 +32,9 @@ interface AppState {
   suppressZeroTime: number;
   areLyricsTicking: boolean;
   lyricData: LyricsData | null;
+  currentLyrics: LyricSourceResultWithMeta | null;
+  /** Song the player is playing, set as soon as its metadata is known */
+  currentSong: PlayerDetails | null;
   areLyricsLoaded: boolean;
   lyricInjectionFailed: boolean;
   lastVideoId: string | null;
@@ -49,12 +54,17 @@ interface AppState {
   isTranslateEnabled: boolean;
   isRomanizationEnabled: boolean;
   translationLanguage: string;
+  songTimingOffsetMs: number;
+  /** How many upcoming songs of the queue get their lyrics fetched ahead of time, 0 turns prefetching off */
+  prefetchCount: number;
 }
 
 export let AppState: AppState = {
   suppressZeroTime: 0,
   areLyricsTicking: false,
   lyricData: null,
+  currentLyrics: null,
+  currentSong: null,
   areLyricsLoaded: false,
   lyricInjectionFailed: false,
   lastVideoId: null,
@@ -74,6 +84,8 @@ export let AppState: AppState = {
   isTranslateEnabled: false,
   isRomanizationEnabled: false,
   translationLanguage: "en",
+  songTimingOffsetMs: 0,
+  prefetchCount: DEFAULT_PREFETCH_COUNT,
 };
 
 /**
@@ -90,13 +102,17 @@ export async function modify(): Promise<void> {
   Settings.hideCursorOnIdle();
   Settings.handleSettings();
   Settings.loadTranslationSettings();
+  Settings.loadPrefetchSettings();
   Storage.subscribeToCustomCSS();
-  await Storage.purgeExpiredKeys();
-  await Storage.saveCacheInfo();
+  // Cache upkeep does not need to hold up startup
+  Storage.purgeExpiredKeys().then(() => Storage.saveCacheInfo());
   Settings.listenForPopupMessages();
   Observer.lyricReloader();
   Observer.initializeLyrics();
+  Prefetch.setupPrefetch();
   Observer.disableInertWhenFullscreen();
+  Observer.setupLocalLyricsPaste();
+  Observer.setupTimingOffsetShortcuts();
   initProviders();
   Utils.log(
     Constants.INITIALIZE_LOG,
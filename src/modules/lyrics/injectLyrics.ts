@@ -1,13 +1,25 @@
 import * as Constants from "@constants";
 import { BACKGROUND_LYRIC_CLASS } from "@constants";
 import * as DOM from "@modules/ui/dom";
+import * as DomLocator from "@modules/ui/domLocator";
 import * as Utils from "@utils";
 import type { TranslationResult } from "@modules/lyrics/translation";
 import * as Translation from "@modules/lyrics/translation";
+import * as LyricExport from "@modules/lyrics/lyricExport";
 import { containsNonLatin, testRtl } from "@modules/lyrics/lyricParseUtils";
+import { describeMatchScore } from "@modules/lyrics/matchScore";
 import { AppState } from "@/index";
-import { applySegmentMapToLyrics, type LyricSourceResultWithMeta } from "@modules/lyrics/lyrics";
-import type { Lyric, LyricPart } from "@modules/lyrics/providers/shared";
+import {
+  applySegmentMapToLyrics,
+  getAvailableLyricSources,
+  type LyricSourceResultWithMeta,
+  isCurrentSongPinned,
+  nudgeTimingOffset,
+  switchLyricsSource,
+  toggleCurrentSongPin,
+} from "@modules/lyrics/lyrics";
+import type { Lyric, LyricPart, LyricSourceKey } from "@modules/lyrics/providers/shared";
+import type { TimeRange } from "@modules/lyrics/segmentMapper";
 import { animEngineState, lyricsElementAdded } from "@modules/ui/animationEngine";
 import { getRelativeBounds } from "@utils";
 
@@ -48,11 +60,19 @@ export type LineData = {
 
 export type SyncType = "richsync" | "synced" | "none";
 
+const syncTypeLabels: Record<SyncType, string> = {
+  richsync: "richsync",
+  synced: "synced",
+  none: "plain",
+};
+
 export interface LyricsData {
   lines: LineData[];
   syncType: SyncType;
   lyricWidth: number;
   isMusicVideoSynced: boolean;
+  /** Stretches of the video without a counterpart in the timeline the lyrics were synced to, in seconds */
+  uncoveredRegions: TimeRange[];
 }
 
 /**
@@ -61,10 +81,11 @@ export interface LyricsData {
  *
  * @param data - Processed lyrics data
  * @param keepLoaderVisible
+ * @param isUpgrade - Replace lyrics already on screen while keeping the scroll position
  * @param data.language - Language code for the lyrics
  * @param data.lyrics - Array of lyric lines
  */
-export function processLyrics(data: LyricSourceResultWithMeta, keepLoaderVisible = false): void {
+export function processLyrics(data: LyricSourceResultWithMeta, keepLoaderVisible = false, isUpgrade = false): void {
   const lyrics = data.lyrics;
   if (!lyrics || lyrics.length === 0) {
     throw new Error(Constants.NO_LYRICS_FOUND_LOG);
@@ -72,7 +93,7 @@ export function processLyrics(data: LyricSourceResultWithMeta, keepLoaderVisible
 
   Utils.log(Constants.LYRICS_FOUND_LOG);
 
-  const ytMusicLyrics = document.querySelector(Constants.NO_LYRICS_TEXT_SELECTOR)?.parentElement;
+  const ytMusicLyrics = DomLocator.locate("noLyricsText")?.parentElement;
   if (ytMusicLyrics) {
     ytMusicLyrics.classList.add("blyrics-hidden");
   }
@@ -84,7 +105,7 @@ export function processLyrics(data: LyricSourceResultWithMeta, keepLoaderVisible
     Utils.log(Constants.LYRICS_TAB_NOT_DISABLED_LOG);
   }
 
-  injectLyrics(data, keepLoaderVisible);
+  injectLyrics(data, keepLoaderVisible, isUpgrade);
 }
 
 function createLyricsLine(parts: LyricPart[], line: LineData, lyricElement: HTMLDivElement) {
@@ -168,12 +189,17 @@ function createBreakElem(lyricElement: HTMLDivElement, order: number) {
  *
  * @param data - Complete lyrics data object
  * @param keepLoaderVisible
+ * @param isUpgrade - Replace lyrics already on screen while keeping the scroll position.
+ * Translations and romanizations already fetched are reused through the translation cache.
  * @param data.lyrics - Array of lyric lines with timing
  * @param [data.source] - Source attribution for lyrics
  * @param [data.sourceHref] - URL for source link
  */
-export function injectLyrics(data: LyricSourceResultWithMeta, keepLoaderVisible = false): void {
+export function injectLyrics(data: LyricSourceResultWithMeta, keepLoaderVisible = false, isUpgrade = false): void {
   const lyrics = data.lyrics!;
+  const tabRenderer = DomLocator.locate("tabRenderer");
+  const previousScrollTop = tabRenderer?.scrollTop ?? 0;
+  const previousScrollPos = animEngineState.scrollPos;
   DOM.cleanup();
   resizeObserver.disconnect();
 
@@ -409,15 +435,48 @@ export function injectLyrics(data: LyricSourceResultWithMeta, keepLoaderVisible
     }
   });
 
-  animEngineState.skipScrolls = 2;
-  animEngineState.skipScrollsDecayTimes = [];
-  for (let i = 0; i < animEngineState.skipScrolls; i++) {
-    animEngineState.skipScrollsDecayTimes.push(Date.now() + 2000);
+  if (!isUpgrade) {
+    animEngineState.skipScrolls = 2;
+    animEngineState.skipScrollsDecayTimes = [];
+    for (let i = 0; i < animEngineState.skipScrolls; i++) {
+      animEngineState.skipScrollsDecayTimes.push(Date.now() + 2000);
+    }
+    animEngineState.scrollResumeTime = 0;
   }
-  animEngineState.scrollResumeTime = 0;
 
   if (lyrics[0].words !== Constants.NO_LYRICS_TEXT) {
-    DOM.addFooter(data.source, data.sourceHref, data.song, data.artist, data.album, data.duration);
+    DOM.addFooter(
+      data.source,
+      data.sourceHref,
+      data.song,
+      data.artist,
+      data.album,
+      data.duration,
+      data.matchScore ? `${data.source}: ${describeMatchScore(data.matchScore)}` : undefined
+    );
+    if (data.providerKey) {
+      DOM.addSourcePicker(
+        data.providerKey,
+        () =>
+          getAvailableLyricSources().map(source => ({
+            value: source.providerKey,
+            label: `${source.source} (${syncTypeLabels[source.syncType]})`,
+          })),
+        providerKey => switchLyricsSource(providerKey as LyricSourceKey)
+      );
+    }
+    if (!allZero) {
+      DOM.addTimingOffsetControls(AppState.songTimingOffsetMs, nudgeTimingOffset);
+    }
+    DOM.addExportMenu(
+      () =>
+        LyricExport.getExportFormats(data.lyrics).map(format => ({
+          value: format,
+          label: LyricExport.exportFormats[format].label,
+        })),
+      format => LyricExport.exportCurrentLyrics(format as LyricExport.ExportFormat)
+    );
+    DOM.addPinButton(isCurrentSongPinned(), toggleCurrentSongPin);
   } else {
     DOM.addNoLyricsButton(data.song, data.artist, data.album, data.duration);
   }
@@ -438,6 +497,7 @@ export function injectLyrics(data: LyricSourceResultWithMeta, keepLoaderVisible
     syncType: syncType,
     lyricWidth: lyricsContainer.clientWidth,
     isMusicVideoSynced: data.musicVideoSynced === true,
+    uncoveredRegions: [],
   };
 
   if (data.segmentMap) {
@@ -445,6 +505,7 @@ export function injectLyrics(data: LyricSourceResultWithMeta, keepLoaderVisible
   }
 
   AppState.lyricData = lyricsData;
+  AppState.currentLyrics = data;
 
   if (!allZero) {
     AppState.areLyricsTicking = true;
@@ -455,6 +516,18 @@ export function injectLyrics(data: LyricSourceResultWithMeta, keepLoaderVisible
   }
 
   AppState.areLyricsLoaded = true;
+
+  if (isUpgrade && tabRenderer) {
+    // Stay where the old lyrics were, the animation engine then moves to the active line of the new ones
+    if (Math.abs(tabRenderer.scrollTop - previousScrollTop) > 1) {
+      tabRenderer.scrollTop = previousScrollTop;
+      animEngineState.skipScrolls += 1;
+      animEngineState.skipScrollsDecayTimes.push(Date.now() + 2000);
+    }
+    animEngineState.scrollPos = previousScrollPos;
+    animEngineState.wasUserScrolling = false;
+    lyricsElementAdded();
+  }
 }
 
 export function calculateLyricPositions() {
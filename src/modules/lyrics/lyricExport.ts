@@ -0,0 +1,258 @@
+/**
+ * @fileoverview Serializes the lyrics currently shown into common lyric and subtitle formats.
+ */
+
+import * as Utils from "@utils";
+import { AppState } from "@/index";
+import { serializeTtml } from "./providers/blyrics/blyrics";
+import type { Lyric, LyricPart } from "./providers/shared";
+import * as Translation from "./translation";
+
+export type ExportFormat = "lrc" | "elrc" | "ttml" | "srt" | "txt";
+
+export interface ExportFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+  /** Whether the format only makes sense for lyrics with timing */
+  needsTiming: boolean;
+}
+
+export const exportFormats: { [key in ExportFormat]: ExportFormatInfo } = {
+  lrc: { label: "LRC", extension: "lrc", mimeType: "text/plain", needsTiming: true },
+  elrc: { label: "Enhanced LRC", extension: "lrc", mimeType: "text/plain", needsTiming: true },
+  ttml: { label: "TTML", extension: "ttml", mimeType: "application/ttml+xml", needsTiming: true },
+  srt: { label: "SRT", extension: "srt", mimeType: "application/x-subrip", needsTiming: true },
+  txt: { label: "Plain text", extension: "txt", mimeType: "text/plain", needsTiming: false },
+};
+
+export interface ExportMetadata {
+  song: string;
+  artist: string;
+  album: string | null;
+  /** Song duration in seconds */
+  duration: number;
+  language?: string | null;
+}
+
+function pad(value: number, length = 2): string {
+  return String(Math.floor(value)).padStart(length, "0");
+}
+
+/** `mm:ss.xx`, as used by LRC */
+function formatLrcTime(ms: number): string {
+  ms = Math.max(ms, 0);
+  return `${pad(ms / 60000)}:${pad((ms / 1000) % 60)}.${pad((ms % 1000) / 10)}`;
+}
+
+/** `hh:mm:ss,mmm`, as used by SRT */
+function formatSrtTime(ms: number): string {
+  ms = Math.max(ms, 0);
+  return `${pad(ms / 3600000)}:${pad((ms / 60000) % 60)}:${pad((ms / 1000) % 60)},${pad(ms % 1000, 3)}`;
+}
+
+function lineEndMs(lyrics: Lyric[], index: number): number {
+  const lyric = lyrics[index];
+  if (lyric.durationMs > 0) {
+    return lyric.startTimeMs + lyric.durationMs;
+  }
+  return lyrics[index + 1]?.startTimeMs ?? lyric.startTimeMs;
+}
+
+/**
+ * Whether the lyrics carry any timing, unsynced lyrics can only be exported as plain text.
+ */
+export function hasTiming(lyrics: Lyric[]): boolean {
+  return lyrics.some(lyric => lyric.startTimeMs > 0);
+}
+
+/**
+ * Wraps runs of background parts in parentheses unless they already are, so formats without
+ * a background marker still tell them apart.
+ */
+function partsToText(parts: LyricPart[], formatPart: (part: LyricPart, words: string) => string): string {
+  return parts
+    .map((part, index) => {
+      let words = part.words;
+      const previous = parts[index - 1];
+      const next = parts[index + 1];
+      if (part.isBackground && !previous?.isBackground && !words.trimStart().startsWith("(")) {
+        words = `(${words}`;
+      }
+      if (part.isBackground && !next?.isBackground && !words.trimEnd().endsWith(")")) {
+        words = words.endsWith(" ") ? `${words.trimEnd()}) ` : `${words})`;
+      }
+      return formatPart(part, words);
+    })
+    .join("");
+}
+
+function lrcHeader(metadata: ExportMetadata): string[] {
+  const header = [`[ti:${metadata.song}]`, `[ar:${metadata.artist}]`];
+  if (metadata.album) {
+    header.push(`[al:${metadata.album}]`);
+  }
+  if (metadata.duration > 0) {
+    header.push(`[length:${formatLrcTime(metadata.duration * 1000).slice(0, 5)}]`);
+  }
+  header.push("[re:Better Lyrics]");
+  return header;
+}
+
+/**
+ * Serializes to LRC with one timestamp per line.
+ */
+export function toLrc(lyrics: Lyric[], metadata: ExportMetadata): string {
+  const lines = lyrics.map(lyric => `[${formatLrcTime(lyric.startTimeMs)}]${lyric.words}`);
+  return [...lrcHeader(metadata), ...lines].join("\n") + "\n";
+}
+
+/**
+ * Serializes to enhanced LRC (A2 extension) with word timings, voice markers and parenthesized background vocals.
+ */
+export function toEnhancedLrc(lyrics: Lyric[], metadata: ExportMetadata): string {
+  let currentAgent: string | undefined;
+  const lines = lyrics.map(lyric => {
+    let line = `[${formatLrcTime(lyric.startTimeMs)}]`;
+    // Voice markers apply until the next one, so only write them when the voice changes
+    if (lyric.agent && lyric.agent !== currentAgent) {
+      currentAgent = lyric.agent;
+      line += `${lyric.agent}: `;
+    }
+
+    if (lyric.parts && lyric.parts.length > 0) {
+      line += partsToText(lyric.parts, (part, words) => `<${formatLrcTime(part.startTimeMs)}>${words}`);
+    } else {
+      line += lyric.words;
+    }
+    return line;
+  });
+  return [...lrcHeader(metadata), ...lines].join("\n") + "\n";
+}
+
+/**
+ * Serializes to SRT, adding romanizations and translations as extra cue lines.
+ */
+export function toSrt(lyrics: Lyric[]): string {
+  const cues = lyrics
+    .map((lyric, index) => ({ lyric, endMs: lineEndMs(lyrics, index) }))
+    .filter(({ lyric }) => lyric.words.trim().length > 0)
+    .map(({ lyric, endMs }, index) => {
+      const text = [lyric.words, lyric.romanization, lyric.translation?.text].filter(Boolean);
+      return [`${index + 1}`, `${formatSrtTime(lyric.startTimeMs)} --> ${formatSrtTime(endMs)}`, ...text].join("\n");
+    });
+  return cues.join("\n\n") + "\n";
+}
+
+/**
+ * Serializes to plain text, one line per lyric.
+ */
+export function toPlainText(lyrics: Lyric[]): string {
+  return lyrics.map(lyric => lyric.words).join("\n") + "\n";
+}
+
+/**
+ * Serializes lyrics into the given format.
+ *
+ * @param lyrics - Lyrics to serialize
+ * @param format - Format to serialize to
+ * @param metadata - Song details for formats with a header
+ */
+export function serializeLyrics(lyrics: Lyric[], format: ExportFormat, metadata: ExportMetadata): string {
+  switch (format) {
+    case "lrc":
+      return toLrc(lyrics, metadata);
+    case "elrc":
+      return toEnhancedLrc(lyrics, metadata);
+    case "ttml":
+      return serializeTtml(lyrics, { language: metadata.language, durationMs: metadata.duration * 1000 });
+    case "srt":
+      return toSrt(lyrics);
+    case "txt":
+      return toPlainText(lyrics);
+  }
+}
+
+/**
+ * Fills in translations and romanizations that were fetched while the lyrics were shown,
+ * and applies the song's timing offset so the export matches what the user sees.
+ */
+function prepareForExport(lyrics: Lyric[]): Lyric[] {
+  const shiftMs = -AppState.songTimingOffsetMs;
+  const shift = (time: number) => (time > 0 ? Math.max(time + shiftMs, 0) : time);
+
+  return lyrics.map(lyric => {
+    const prepared: Lyric = {
+      ...lyric,
+      startTimeMs: shift(lyric.startTimeMs),
+      parts: lyric.parts?.map(part => ({ ...part, startTimeMs: shift(part.startTimeMs) })),
+    };
+
+    if (!prepared.translation && AppState.isTranslateEnabled) {
+      const cached = Translation.getTranslationFromCache(lyric.words, AppState.translationLanguage);
+      if (cached) {
+        prepared.translation = { text: cached.translatedText, lang: AppState.translationLanguage };
+      }
+    }
+    if (!prepared.romanization && AppState.isRomanizationEnabled) {
+      prepared.romanization = Translation.getRomanizationFromCache(lyric.words) ?? undefined;
+    }
+    return prepared;
+  });
+}
+
+function downloadText(text: string, fileName: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([text], { type: `${mimeType};charset=utf-8` }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+
+  setTimeout(() => URL.revokeObjectURL(url), 100);
+}
+
+/**
+ * Lists the formats lyrics can be exported to.
+ */
+export function getExportFormats(lyrics: Lyric[] | null): ExportFormat[] {
+  if (!lyrics || lyrics.length === 0) {
+    return [];
+  }
+  const isTimed = hasTiming(lyrics);
+  const isWordSynced = lyrics.some(lyric => lyric.parts && lyric.parts.length > 0);
+  return (Object.keys(exportFormats) as ExportFormat[]).filter(format => {
+    if (format === "elrc") {
+      return isWordSynced;
+    }
+    return isTimed || !exportFormats[format].needsTiming;
+  });
+}
+
+/**
+ * Downloads the lyrics currently shown in the given format.
+ *
+ * @param format - Format to export to
+ */
+export function exportCurrentLyrics(format: ExportFormat): void {
+  const current = AppState.currentLyrics;
+  if (!current?.lyrics || current.lyrics.length === 0) {
+    Utils.log("[BetterLyrics] No lyrics to export");
+    return;
+  }
+
+  const text = serializeLyrics(prepareForExport(current.lyrics), format, {
+    song: current.song,
+    artist: current.artist,
+    album: current.album || null,
+    duration: current.duration,
+    language: current.language,
+  });
+
+  const info = exportFormats[format];
+  const baseName = `${current.artist} - ${current.song}`.replace(/[\\/:*?"<>|]+/g, "_").trim();
+  downloadText(text, `${baseName}.${info.extension}`, info.mimeType);
+  Utils.log(`[BetterLyrics] Exported lyrics as ${info.label}`);
+}
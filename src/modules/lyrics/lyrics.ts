@@ -4,21 +4,33 @@
  */
 
 import * as Constants from "@constants";
-import { injectLyrics, type LyricsData, processLyrics } from "@modules/lyrics/injectLyrics";
-import { stringSimilarity } from "@modules/lyrics/lyricParseUtils";
+import * as LyricsCache from "@core/lyricsCache";
+import {
+  injectLyrics,
+  type LyricsData,
+  type PartData,
+  processLyrics,
+  type SyncType,
+} from "@modules/lyrics/injectLyrics";
+import { computeMatchScore, getMatchThresholds, logMatchScore, type MatchScore } from "@modules/lyrics/matchScore";
+import { normalizeQuery } from "@modules/lyrics/queryNormalization";
 import * as DOM from "@modules/ui/dom";
+import * as DomLocator from "@modules/ui/domLocator";
 import * as Utils from "@utils";
 import type { PlayerDetails } from "@/index";
 import { AppState } from "@/index";
 import type { CubeyLyricSourceResult } from "./providers/cubey";
-import type { LyricSourceResult, ProviderParameters } from "./providers/shared";
+import type { Lyric, LyricSourceKey, LyricSourceResult, ProviderParameters } from "./providers/shared";
 import * as LyricProviders from "./providers/shared";
 import type { YTLyricSourceResult } from "./providers/yt";
-import type { SegmentMap } from "./requestSniffer";
+import type { CaptionTrack, PlayerInfo, SegmentMap } from "./requestSniffer";
 import * as RequestSniffer from "./requestSniffer";
 import * as RequestSniffing from "./requestSniffer";
+import type { TimeRange } from "./segmentMapper";
+import * as SegmentMapper from "./segmentMapper";
+import * as SongPreferences from "./songPreferences";
 import * as Translation from "./translation";
-import { animEngineState } from "@modules/ui/animationEngine";
+import { animEngineState, lyricsElementAdded } from "@modules/ui/animationEngine";
 
 export type LyricSourceResultWithMeta = LyricSourceResult & {
   song: string;
@@ -27,33 +39,269 @@ export type LyricSourceResultWithMeta = LyricSourceResult & {
   duration: number;
   videoId: string;
   segmentMap: SegmentMap | null;
+  providerKey?: LyricSourceKey | null;
+  /** How well the lyrics matched the song, for lyrics that went through the match check */
+  matchScore?: MatchScore | null;
 };
 
+export interface AvailableLyricSource {
+  providerKey: LyricSourceKey;
+  source: string;
+  syncType: SyncType;
+}
+
+/**
+ * Everything needed to show a different source for the song that is currently loaded.
+ */
+interface LyricsContext {
+  providerParameters: ProviderParameters;
+  segmentMap: SegmentMap | null;
+  isMusicVideo: boolean;
+  playerVideoId: string;
+  /** Set once the user picks a source, so late provider results no longer replace it */
+  isSourcePinned: boolean;
+}
+
+let lyricsContext: LyricsContext | null = null;
+
+/** The /player response comes in before a song starts playing, so it is only missing when it wasn't sniffed at all */
+const PLAYER_INFO_TIMEOUT_MS = 1000;
+
+/**
+ * Whether the player plays a video rather than an audio track. Goes by the video type YouTube Music reports,
+ * and only falls back to checking for a rendered video when the /player response wasn't sniffed.
+ */
+function isPlayingMusicVideo(detail: PlayerDetails, playerInfo: PlayerInfo | null): boolean {
+  if (playerInfo?.musicVideoType) {
+    return playerInfo.musicVideoType !== "ATV";
+  }
+  return detail.contentRect.width !== 0 && detail.contentRect.height !== 0;
+}
+
+/**
+ * Lists the caption tracks of the video that is playing, falling back to the ones the player reports
+ * when the /player response wasn't sniffed.
+ */
+function getCaptionTracks(detail: PlayerDetails, playerInfo: PlayerInfo | null): CaptionTrack[] {
+  if (playerInfo) {
+    return playerInfo.captionTracks;
+  }
+  return (detail.audioTrackData?.captionTracks ?? []).map((track: any) => ({
+    url: track.url,
+    languageCode: track.languageCode,
+    name: track.displayName,
+    isAutoGenerated: track.kind === "asr" || track.displayName?.includes("auto-generated") === true,
+    isDefault: track.isDefault === true,
+  }));
+}
+
+/**
+ * Finds the video id a song's lyrics are looked up by, which is the audio track's id while its music video plays.
+ * Only goes by what was already sniffed, so it answers right away.
+ *
+ * @param detail - Song and player details
+ */
+export async function getLyricsVideoId(detail: PlayerDetails): Promise<string> {
+  const playerInfo = await RequestSniffer.getPlayerInfo(detail.videoId, undefined, 0);
+  const matchingSong = await RequestSniffer.getMatchingSong(detail.videoId, undefined, 0);
+  if (isPlayingMusicVideo(detail, playerInfo) && matchingSong?.counterpartVideoId && matchingSong.segmentMap) {
+    return matchingSong.counterpartVideoId;
+  }
+  return detail.videoId;
+}
+
+function getSyncType(lyrics: Lyric[]): SyncType {
+  if (lyrics.every(lyric => lyric.startTimeMs === 0)) {
+    return "none";
+  }
+  if (lyrics.some(lyric => lyric.parts?.some(part => part.durationMs !== 0))) {
+    return "richsync";
+  }
+  return "synced";
+}
+
+function showLyrics(context: LyricsContext, lyrics: LyricSourceResult, providerKey: LyricSourceKey | null): void {
+  if (!lyrics.lyrics) {
+    throw new Error("Lyrics.lyrics is null or undefined. Report this bug");
+  }
+
+  const providerParameters = context.providerParameters;
+
+  // If the timing matches, we don't need to apply a segment map!
+  const segmentMap = context.isMusicVideo === (lyrics.musicVideoSynced === true) ? null : context.segmentMap;
+
+  Utils.log("Got Lyrics from " + lyrics.source);
+
+  // Preserve song and artist information in the lyrics data for the "Add Lyrics" button
+
+  let lyricsWithMeta: LyricSourceResultWithMeta = {
+    song: providerParameters.song,
+    artist: providerParameters.artist,
+    album: providerParameters.album || "",
+    duration: providerParameters.duration,
+    videoId: providerParameters.videoId,
+    segmentMap,
+    providerKey,
+    matchScore: providerKey ? providerParameters.sourceMap[providerKey].matchScore : null,
+    ...lyrics,
+  };
+
+  AppState.lastLoadedVideoId = context.playerVideoId;
+  if (providerParameters.signal.aborted) {
+    return;
+  }
+  // Lyrics already on screen for this song are swapped in place instead of reloaded
+  processLyrics(lyricsWithMeta, false, AppState.areLyricsLoaded);
+}
+
+/**
+ * Lists every provider that returned lyrics for the current song, in priority order.
+ */
+export function getAvailableLyricSources(): AvailableLyricSource[] {
+  if (!lyricsContext) {
+    return [];
+  }
+
+  const sourceMap = lyricsContext.providerParameters.sourceMap;
+  const providerKeys = Object.keys(sourceMap) as LyricSourceKey[];
+  const priority = (key: LyricSourceKey) => {
+    const index = LyricProviders.providerPriority.indexOf(key);
+    return index === -1 ? Infinity : index;
+  };
+
+  return providerKeys
+    .filter(key => {
+      const lyrics = sourceMap[key].lyricSourceResult?.lyrics;
+      return sourceMap[key].filled && lyrics && lyrics.length > 0;
+    })
+    .sort((a, b) => priority(a) - priority(b))
+    .map(providerKey => {
+      const result = sourceMap[providerKey].lyricSourceResult!;
+      return { providerKey, source: result.source, syncType: getSyncType(result.lyrics!) };
+    });
+}
+
+/**
+ * Looks up the current song with a single provider, used by the diagnostics in the options page.
+ *
+ * @param providerKey - Provider to test
+ */
+export async function testLyricsProvider(providerKey: LyricSourceKey): Promise<LyricProviders.ProviderTestResult> {
+  if (!lyricsContext) {
+    return { ok: false, lineCount: 0, latencyMs: 0, error: "No song is loaded" };
+  }
+  return LyricProviders.testProvider(lyricsContext.providerParameters, providerKey);
+}
+
+/**
+ * Whether the current song's cached lyrics are pinned.
+ */
+export async function isCurrentSongPinned(): Promise<boolean> {
+  if (!lyricsContext) {
+    return false;
+  }
+  return LyricsCache.isSongPinned(lyricsContext.providerParameters.videoId);
+}
+
+/**
+ * Pins or unpins the current song, pinned songs keep their cached lyrics regardless of the cache budget.
+ *
+ * @returns Whether the song is pinned now
+ */
+export async function toggleCurrentSongPin(): Promise<boolean> {
+  const context = lyricsContext;
+  if (!context) {
+    return false;
+  }
+
+  const { videoId, song, artist } = context.providerParameters;
+  if (await LyricsCache.isSongPinned(videoId)) {
+    await LyricsCache.unpinSong(videoId);
+    Utils.log(`[BetterLyrics] Unpinned ${song} by ${artist}`);
+    return false;
+  }
+  await LyricsCache.pinSong(videoId, song, artist);
+  Utils.log(`[BetterLyrics] Pinned ${song} by ${artist}, its lyrics stay cached`);
+  return true;
+}
+
+/**
+ * Shows the lyrics another provider already returned for the current song, without refetching,
+ * and remembers the choice for this song.
+ *
+ * @param providerKey - Provider whose lyrics should be shown
+ */
+export function switchLyricsSource(providerKey: LyricSourceKey): void {
+  const context = lyricsContext;
+  const lyrics = context?.providerParameters.sourceMap[providerKey].lyricSourceResult;
+  if (!context || !lyrics || !lyrics.lyrics || lyrics.lyrics.length === 0) {
+    return;
+  }
+
+  context.isSourcePinned = true;
+  showLyrics(context, lyrics, providerKey);
+  SongPreferences.setSongPreference(context.providerParameters.videoId, "preferredSource", providerKey);
+}
+
+/**
+ * Shifts the timing of the current song's lyrics and remembers the offset for this song.
+ *
+ * @param deltaMs - Milliseconds to add to the offset, positive values show lyrics earlier
+ */
+export function nudgeTimingOffset(deltaMs: number): void {
+  const context = lyricsContext;
+  if (!context || !AppState.areLyricsLoaded) {
+    return;
+  }
+
+  AppState.songTimingOffsetMs += deltaMs;
+  Utils.log(`[BetterLyrics] Timing offset for this song is now ${AppState.songTimingOffsetMs}ms`);
+  DOM.updateTimingOffsetControls(AppState.songTimingOffsetMs);
+  lyricsElementAdded();
+
+  SongPreferences.setSongPreference(
+    context.providerParameters.videoId,
+    "timingOffsetMs",
+    AppState.songTimingOffsetMs === 0 ? undefined : AppState.songTimingOffsetMs
+  );
+}
+
+function remapTiming(timing: PartData, range: TimeRange | null, fallbackOffset: number): void {
+  if (range) {
+    timing.time = range.start;
+    timing.duration = range.end - range.start;
+  } else {
+    timing.time += fallbackOffset;
+  }
+}
+
+/**
+ * Moves lyrics onto the timeline of the counterpart video. Every line and part is mapped on its own,
+ * lines without a counterpart are dimmed and the stretches of the video without one are remembered
+ * so the lyrics can be dimmed while they play.
+ *
+ * @param lyricData - Lyrics on screen
+ * @param segmentMap - Segment map of the video the lyrics are moved onto
+ */
 export function applySegmentMapToLyrics(lyricData: LyricsData | null, segmentMap: SegmentMap) {
   if (segmentMap && lyricData) {
     lyricData.isMusicVideoSynced = !lyricData.isMusicVideoSynced;
     // We're sync lyrics using segment map
     const allZero = lyricData.syncType === "none";
+    const mapper = SegmentMapper.createSegmentMapper(segmentMap);
+    lyricData.uncoveredRegions = allZero ? [] : mapper.uncoveredRegions;
 
     if (!allZero) {
       for (let lyric of lyricData.lines) {
         lyric.accumulatedOffsetMs = 1000000; // Force resync by setting to a very large value
-        let lastTimeChange = 0;
-        for (let segment of segmentMap.segment) {
-          let lyricTimeMs = lyric.time * 1000;
-          if (lyricTimeMs >= segment.counterpartVideoStartTimeMilliseconds) {
-            lastTimeChange = segment.primaryVideoStartTimeMilliseconds - segment.counterpartVideoStartTimeMilliseconds;
-            if (lyricTimeMs <= segment.counterpartVideoStartTimeMilliseconds + segment.durationMilliseconds) {
-              break;
-            }
-          }
-        }
-
-        let changeS = lastTimeChange / 1000;
-        lyric.time = lyric.time + changeS;
+        const lineRange = mapper.mapRange(lyric.time, lyric.time + lyric.duration);
+        const fallbackOffset = mapper.fallbackOffset(lyric.time);
+
         lyric.parts.forEach(part => {
-          part.time = part.time + changeS;
+          remapTiming(part, mapper.mapRange(part.time, part.time + part.duration), fallbackOffset);
         });
+        remapTiming(lyric, lineRange, fallbackOffset);
+        lyric.lyricElement.classList.toggle(Constants.UNMAPPED_LYRIC_CLASS, lineRange === null);
 
         lyric.lyricElement.setAttribute(
           "onClick",
@@ -78,18 +326,18 @@ export async function createLyrics(detail: PlayerDetails, signal: AbortSignal):
   let song = detail.song;
   let artist = detail.artist;
   let videoId = detail.videoId;
-  let duration = Number(detail.duration);
-  const audioTrackData = detail.audioTrackData;
-  const isMusicVideo = detail.contentRect.width !== 0 && detail.contentRect.height !== 0;
-
   if (!videoId) {
     Utils.log(Constants.SERVER_ERROR_LOG, "Invalid video id");
     return;
   }
 
+  const playerInfo = await RequestSniffer.getPlayerInfo(videoId, signal, PLAYER_INFO_TIMEOUT_MS);
+  let duration = Number(detail.duration) || playerInfo?.duration || 0;
+  const isMusicVideo = isPlayingMusicVideo(detail, playerInfo);
+
   // We should get recalled if we were executed without a valid song/artist and aren't able to get lyrics
 
-  let matchingSong = await RequestSniffer.getMatchingSong(videoId, 1);
+  let matchingSong = await RequestSniffer.getMatchingSong(videoId, signal, 0);
   let swappedVideoId = false;
   let isAVSwitch =
     (matchingSong &&
@@ -107,7 +355,7 @@ export async function createLyrics(detail: PlayerDetails, signal: AbortSignal):
     Utils.log("Not Switching between audio/video", isAVSwitch, segmentMap);
     DOM.renderLoader(); // Only render the loader after we've checked the cache & we're not switching between audio and video
     Translation.clearCache();
-    matchingSong = await RequestSniffer.getMatchingSong(videoId);
+    matchingSong = await RequestSniffer.getMatchingSong(videoId, signal);
     AppState.areLyricsLoaded = false;
     AppState.areLyricsTicking = false;
   }
@@ -118,9 +366,8 @@ export async function createLyrics(detail: PlayerDetails, signal: AbortSignal):
     videoId = matchingSong.counterpartVideoId;
   }
 
-  const tabSelector = document.getElementsByClassName(Constants.TAB_HEADER_CLASS)[1];
-  console.assert(tabSelector != null);
-  if (tabSelector.getAttribute("aria-selected") !== "true") {
+  const tabSelector = DomLocator.locate("lyricsTab");
+  if (!tabSelector || tabSelector.getAttribute("aria-selected") !== "true") {
     AppState.areLyricsLoaded = false;
     AppState.areLyricsTicking = false;
     AppState.lyricInjectionFailed = true;
@@ -128,10 +375,10 @@ export async function createLyrics(detail: PlayerDetails, signal: AbortSignal):
     return;
   }
 
-  song = song.trim();
-  artist = artist.trim();
-  artist = artist.replace(", & ", ", ");
-  let album = await RequestSniffing.getSongAlbum(videoId);
+  const normalizedQuery = normalizeQuery(song, artist);
+  song = normalizedQuery.canonical.song;
+  artist = normalizedQuery.canonical.artist;
+  let album = await RequestSniffing.getSongAlbum(videoId, signal);
   if (!album) {
     album = "";
   }
@@ -144,21 +391,44 @@ export async function createLyrics(detail: PlayerDetails, signal: AbortSignal):
 
   Utils.log(Constants.FETCH_LYRICS_LOG, song, artist);
 
-  let lyrics: LyricSourceResult | null = null;
   let sourceMap = LyricProviders.newSourceMap();
-  // We depend on the cubey lyrics to fetch certain metadata, so we always call it even if it isn't the top priority
+  // The race corrects the song info with the metadata Cubey matched before the providers that depend on it start
   let providerParameters: ProviderParameters = {
     song,
     artist,
     duration,
     videoId,
-    audioTrackData,
+    musicVideoType: playerInfo?.musicVideoType ?? null,
+    captionTracks: getCaptionTracks(detail, playerInfo),
+    publishYear: playerInfo?.publishYear ?? null,
+    thumbnails: playerInfo?.thumbnails ?? [],
     album,
     sourceMap,
     alwaysFetchMetadata: swappedVideoId,
     signal,
+    queryVariants: normalizedQuery.variants,
   };
 
+  const context: LyricsContext = {
+    providerParameters,
+    segmentMap,
+    isMusicVideo,
+    playerVideoId: detail.videoId,
+    isSourcePinned: false,
+  };
+  lyricsContext = context;
+
+  // A source the user picked for this song before is tried first
+  const { preferredSource, timingOffsetMs } = await SongPreferences.getSongPreferences(videoId);
+  // Keyed by the audio track's id, so the offset carries over when switching to the music video
+  AppState.songTimingOffsetMs = timingOffsetMs ?? 0;
+  let providers = LyricProviders.providerPriority;
+  if (preferredSource && preferredSource in sourceMap) {
+    providers = [preferredSource, ...providers.filter(provider => provider !== preferredSource)];
+  }
+
+  let matchThresholdsPromise = getMatchThresholds();
+
   let ytLyricsPromise = LyricProviders.getLyrics(providerParameters, "yt-lyrics").then(lyrics => {
     if (!AppState.areLyricsLoaded && lyrics) {
       Utils.log("[BetterLyrics] Temporarily Using YT Music Lyrics while we wait for synced lyrics to load");
@@ -171,114 +441,79 @@ export async function createLyrics(detail: PlayerDetails, signal: AbortSignal):
         videoId: providerParameters.videoId,
         album: providerParameters.album || "",
         segmentMap: null,
+        providerKey: "yt-lyrics" as const,
       };
       processLyrics(lyricsWithMeta, true);
     }
     return lyrics;
   });
 
-  try {
-    let cubyLyrics = (await LyricProviders.getLyrics(
-      providerParameters,
-      "musixmatch-richsync"
-    )) as CubeyLyricSourceResult;
-    if (cubyLyrics && cubyLyrics.album && cubyLyrics.album.length > 0 && album !== cubyLyrics.album) {
-      providerParameters.album = cubyLyrics.album;
-    }
-    if (cubyLyrics && cubyLyrics.song && cubyLyrics.song.length > 0 && song !== cubyLyrics.song) {
-      Utils.log("Using '" + cubyLyrics.song + "' for song instead of '" + song + "'");
-      providerParameters.song = cubyLyrics.song;
-    }
-
-    if (cubyLyrics && cubyLyrics.artist && cubyLyrics.artist.length > 0 && artist !== cubyLyrics.artist) {
-      Utils.log("Using '" + cubyLyrics.artist + "' for artist instead of '" + artist + "'");
-      providerParameters.artist = cubyLyrics.artist;
-    }
-
-    if (cubyLyrics && cubyLyrics.duration && duration !== cubyLyrics.duration) {
-      Utils.log("Using '" + cubyLyrics.duration + "' for duration instead of '" + duration + "'");
-      providerParameters.duration = cubyLyrics.duration;
-    }
-  } catch (err) {
-    Utils.log(err);
-  }
-
-  for (let provider of LyricProviders.providerPriority) {
-    if (signal.aborted) {
-      return;
-    }
-
-    try {
-      let sourceLyrics = await LyricProviders.getLyrics(providerParameters, provider);
-
-      if (sourceLyrics && sourceLyrics.lyrics && sourceLyrics.lyrics.length > 0) {
-        let ytLyrics = (await ytLyricsPromise) as YTLyricSourceResult;
-
-        if (ytLyrics !== null) {
-          let lyricText = "";
-          sourceLyrics.lyrics.forEach(lyric => {
-            lyricText += lyric.words + "\n";
-          });
-
-          let matchAmount = stringSimilarity(lyricText.toLowerCase(), ytLyrics.text.toLowerCase());
-          if (matchAmount < 0.5) {
-            Utils.log(
-              `Got lyrics from ${sourceLyrics.source}, but they don't match yt lyrics. Rejecting: Match: ${matchAmount}%`
-            );
-            continue;
-          }
-        }
-        lyrics = sourceLyrics;
-        break;
+  let raceResult = await LyricProviders.raceProviders(providerParameters, providers, {
+    accept: async (provider, sourceLyrics) => {
+      // Lyrics the user imported or picked themselves are trusted as-is
+      if (provider === "local" || provider === preferredSource) {
+        return true;
       }
-    } catch (err) {
-      Utils.log(err);
-    }
-  }
 
-  if (!lyrics) {
-    lyrics = {
-      lyrics: [
+      let ytLyrics = (await ytLyricsPromise.catch(() => null)) as YTLyricSourceResult | null;
+      // Only Cubey reports what song it matched, which covers every Musixmatch source
+      let reported = provider.startsWith("musixmatch")
+        ? (sourceMap["musixmatch-richsync"].lyricSourceResult as CubeyLyricSourceResult | null)
+        : null;
+
+      let matchScore = computeMatchScore(
+        sourceLyrics,
         {
-          startTimeMs: 0,
-          words: Constants.NO_LYRICS_TEXT,
-          durationMs: 0,
+          song,
+          artist,
+          album,
+          // The music video's length says nothing about the audio track's lyrics
+          duration: swappedVideoId ? 0 : duration,
+          referenceText: ytLyrics?.text || null,
         },
-      ],
-      source: "Unknown",
-      sourceHref: "",
-      musicVideoSynced: false,
-      cacheAllowed: false,
-    };
-  }
-
-  if (!lyrics.lyrics) {
-    throw new Error("Lyrics.lyrics is null or undefined. Report this bug");
-  }
-
-  if (isMusicVideo === (lyrics.musicVideoSynced === true)) {
-    segmentMap = null; // The timing matches, we don't need to apply a segment map!
-  }
-
-  Utils.log("Got Lyrics from " + lyrics.source);
-
-  // Preserve song and artist information in the lyrics data for the "Add Lyrics" button
-
-  let lyricsWithMeta: LyricSourceResultWithMeta = {
-    song: providerParameters.song,
-    artist: providerParameters.artist,
-    album: providerParameters.album || "",
-    duration: providerParameters.duration,
-    videoId: providerParameters.videoId,
-    segmentMap,
-    ...lyrics,
-  };
+        reported || {},
+        await matchThresholdsPromise
+      );
+      sourceMap[provider].matchScore = matchScore;
+      logMatchScore(sourceLyrics.source, matchScore);
+      return matchScore.accepted;
+    },
+    // Show the best lyrics so far while higher priority providers are still loading
+    onProgress: result => {
+      if (!context.isSourcePinned) {
+        showLyrics(context, result.lyrics, result.provider);
+      }
+    },
+    onSourceFilled: () => {
+      if (lyricsContext === context) {
+        DOM.refreshSourcePicker();
+      }
+    },
+  });
 
-  AppState.lastLoadedVideoId = detail.videoId;
   if (signal.aborted) {
     return;
   }
-  processLyrics(lyricsWithMeta);
+
+  if (!raceResult && !context.isSourcePinned) {
+    showLyrics(
+      context,
+      {
+        lyrics: [
+          {
+            startTimeMs: 0,
+            words: Constants.NO_LYRICS_TEXT,
+            durationMs: 0,
+          },
+        ],
+        source: "Unknown",
+        sourceHref: "",
+        musicVideoSynced: false,
+        cacheAllowed: false,
+      },
+      null
+    );
+  }
 }
 
 /**
@@ -291,11 +526,12 @@ export async function preFetchLyrics(detail: PlayerDetails, signal: AbortSignal)
   let song = detail.song;
   let artist = detail.artist;
   let videoId = detail.videoId;
-  let duration = Number(detail.duration);
-  const audioTrackData = detail.audioTrackData;
-  const isMusicVideo = detail.contentRect.width !== 0 && detail.contentRect.height !== 0;
+  // Songs that haven't played yet have no /player response, unless they played before
+  const playerInfo = await RequestSniffer.getPlayerInfo(videoId, signal, 0);
+  let duration = Number(detail.duration) || playerInfo?.duration || 0;
+  const isMusicVideo = isPlayingMusicVideo(detail, playerInfo);
 
-  let matchingSong = await RequestSniffer.getMatchingSong(videoId);
+  let matchingSong = await RequestSniffer.getMatchingSong(videoId, signal);
   let swappedVideoId = false;
 
   if (isMusicVideo && matchingSong && matchingSong.counterpartVideoId && matchingSong.segmentMap) {
@@ -303,10 +539,10 @@ export async function preFetchLyrics(detail: PlayerDetails, signal: AbortSignal)
     videoId = matchingSong.counterpartVideoId;
   }
 
-  song = song.trim();
-  artist = artist.trim();
-  artist = artist.replace(", & ", ", ");
-  let album = await RequestSniffing.getSongAlbum(videoId);
+  const normalizedQuery = normalizeQuery(song, artist);
+  song = normalizedQuery.canonical.song;
+  artist = normalizedQuery.canonical.artist;
+  let album = await RequestSniffing.getSongAlbum(videoId, signal);
   if (!album) {
     album = "";
   }
@@ -314,55 +550,22 @@ export async function preFetchLyrics(detail: PlayerDetails, signal: AbortSignal)
   Utils.log("Prefetching for: ", song, artist);
 
   let sourceMap = LyricProviders.newSourceMap();
-  // We depend on the cubey lyrics to fetch certain metadata, so we always call it even if it isn't the top priority
   let providerParameters: ProviderParameters = {
     song,
     artist,
     duration,
     videoId,
-    audioTrackData,
+    musicVideoType: playerInfo?.musicVideoType ?? null,
+    captionTracks: getCaptionTracks(detail, playerInfo),
+    publishYear: playerInfo?.publishYear ?? null,
+    thumbnails: playerInfo?.thumbnails ?? [],
     album,
     sourceMap,
     alwaysFetchMetadata: swappedVideoId,
     signal,
+    queryVariants: normalizedQuery.variants,
   };
 
-  try {
-    let cubyLyrics = (await LyricProviders.getLyrics(
-      providerParameters,
-      "musixmatch-richsync"
-    )) as CubeyLyricSourceResult;
-    if (cubyLyrics && cubyLyrics.album && cubyLyrics.album.length > 0 && album !== cubyLyrics.album) {
-      providerParameters.album = cubyLyrics.album;
-    }
-    if (cubyLyrics && cubyLyrics.song && cubyLyrics.song.length > 0 && song !== cubyLyrics.song) {
-      providerParameters.song = cubyLyrics.song;
-    }
-
-    if (cubyLyrics && cubyLyrics.artist && cubyLyrics.artist.length > 0 && artist !== cubyLyrics.artist) {
-      providerParameters.artist = cubyLyrics.artist;
-    }
-
-    if (cubyLyrics && cubyLyrics.duration && duration !== cubyLyrics.duration) {
-      providerParameters.duration = cubyLyrics.duration;
-    }
-  } catch (err) {
-    Utils.log(err);
-  }
-
-  for (let provider of LyricProviders.providerPriority) {
-    if (signal.aborted) {
-      return;
-    }
-
-    try {
-      let sourceLyrics = await LyricProviders.getLyrics(providerParameters, provider);
-
-      if (sourceLyrics && sourceLyrics.lyrics && sourceLyrics.lyrics.length > 0) {
-        break;
-      }
-    } catch (err) {
-      Utils.log(err);
-    }
-  }
+  // Results end up in the lyrics cache, so there's nothing to do with the winner here
+  await LyricProviders.raceProviders(providerParameters, LyricProviders.providerPriority);
 }
@@ -0,0 +1,197 @@
+/**
+ * @fileoverview Scores how likely a provider's lyrics belong to the song that is playing.
+ * Combines several independent signals so a single misleading one (e.g. a short chorus-only text match)
+ * can't accept lyrics for the wrong song on its own.
+ */
+
+import * as Constants from "@constants";
+import * as Storage from "@core/storage";
+import * as Utils from "@utils";
+import { stringSimilarity } from "./lyricParseUtils";
+import type { LyricSourceResult } from "./providers/shared";
+
+/**
+ * Each signal is between 0 (no match) and 1 (perfect match), or undefined when it couldn't be computed.
+ */
+export interface MatchSignals {
+  duration?: number;
+  title?: number;
+  artist?: number;
+  album?: number;
+  lineCount?: number;
+  text?: number;
+}
+
+export interface MatchScore {
+  /** Weighted average of the available signals, 1 when no signal is available */
+  score: number;
+  signals: MatchSignals;
+  accepted: boolean;
+  /** Why the lyrics were rejected, if they were */
+  rejectReason?: string;
+}
+
+export interface MatchThresholds {
+  /** Minimum weighted score to accept lyrics */
+  minScore: number;
+  /** Lyrics whose text matches the YouTube Music lyrics less than this are always rejected */
+  minTextSimilarity: number;
+  /** Lyrics whose reported duration differs more than this (in seconds) are always rejected */
+  maxDurationDeltaS: number;
+}
+
+/** Metadata of the song being played */
+export interface MatchTarget {
+  song: string;
+  artist: string;
+  album: string | null;
+  duration: number;
+  /** Plain lyrics from YouTube Music, if it has any */
+  referenceText: string | null;
+}
+
+/** Metadata a provider reported for the lyrics it returned */
+export interface ReportedMetadata {
+  song?: string | null;
+  artist?: string | null;
+  album?: string | null;
+  duration?: number | null;
+}
+
+export const defaultMatchThresholds: MatchThresholds = {
+  minScore: Constants.DEFAULT_MATCH_MIN_SCORE,
+  minTextSimilarity: Constants.DEFAULT_MATCH_MIN_TEXT_SIMILARITY,
+  maxDurationDeltaS: Constants.DEFAULT_MATCH_MAX_DURATION_DELTA_S,
+};
+
+const signalWeights: Required<{ [key in keyof MatchSignals]: number }> = {
+  duration: 0.2,
+  title: 0.15,
+  artist: 0.15,
+  album: 0.05,
+  lineCount: 0.1,
+  text: 0.35,
+};
+
+/**
+ * Loads the thresholds, letting the `matchThresholds` object in sync storage override any of the defaults.
+ * The options page sets it from the lyrics matching controls of the Sources tab.
+ */
+export function getMatchThresholds(): Promise<MatchThresholds> {
+  return new Promise(resolve => {
+    Storage.getStorage({ matchThresholds: {} }, items => {
+      resolve({ ...defaultMatchThresholds, ...items.matchThresholds });
+    });
+  });
+}
+
+function fuzzyMatch(a: string | null | undefined, b: string | null | undefined): number | undefined {
+  if (!a || !b) {
+    return undefined;
+  }
+  a = a.trim().toLowerCase();
+  b = b.trim().toLowerCase();
+  return a === b ? 1 : stringSimilarity(a, b);
+}
+
+function durationSignal(lyrics: LyricSourceResult, target: MatchTarget, reported: ReportedMetadata, maxDeltaS: number) {
+  if (!target.duration) {
+    return { signal: undefined, deltaS: 0 };
+  }
+
+  let deltaS = 0;
+  if (reported.duration) {
+    deltaS = Math.abs(reported.duration - target.duration);
+  }
+
+  // Synced lyrics that keep going after the song ended can't be for this recording
+  const lastLine = lyrics.lyrics?.[lyrics.lyrics.length - 1];
+  if (lastLine && lastLine.startTimeMs > 0) {
+    deltaS = Math.max(deltaS, lastLine.startTimeMs / 1000 - target.duration);
+  }
+
+  if (!reported.duration && !(lastLine && lastLine.startTimeMs > 0)) {
+    return { signal: undefined, deltaS };
+  }
+  return { signal: Math.max(0, 1 - deltaS / maxDeltaS), deltaS };
+}
+
+/**
+ * Scores a candidate result against the song being played.
+ *
+ * @param lyrics - Lyrics returned by a provider
+ * @param target - The song being played
+ * @param reported - Metadata the provider reported for the lyrics
+ * @param thresholds - Thresholds deciding whether the lyrics are accepted
+ */
+export function computeMatchScore(
+  lyrics: LyricSourceResult,
+  target: MatchTarget,
+  reported: ReportedMetadata,
+  thresholds: MatchThresholds = defaultMatchThresholds
+): MatchScore {
+  const lines = lyrics.lyrics || [];
+  const candidateText = lines.map(line => line.words).join("\n");
+
+  const duration = durationSignal(lyrics, target, reported, thresholds.maxDurationDeltaS);
+  const signals: MatchSignals = {
+    duration: duration.signal,
+    title: fuzzyMatch(reported.song, target.song),
+    artist: fuzzyMatch(reported.artist, target.artist),
+    album: fuzzyMatch(reported.album, target.album),
+  };
+
+  if (target.referenceText) {
+    const referenceLineCount = target.referenceText.split("\n").filter(line => line.trim().length > 0).length;
+    const candidateLineCount = lines.filter(line => line.words.trim().length > 0).length;
+    if (referenceLineCount > 0 && candidateLineCount > 0) {
+      signals.lineCount =
+        Math.min(referenceLineCount, candidateLineCount) / Math.max(referenceLineCount, candidateLineCount);
+    }
+    signals.text = stringSimilarity(candidateText.toLowerCase(), target.referenceText.toLowerCase());
+  }
+
+  let weightedSum = 0;
+  let totalWeight = 0;
+  (Object.keys(signalWeights) as (keyof MatchSignals)[]).forEach(name => {
+    const signal = signals[name];
+    if (signal !== undefined) {
+      weightedSum += signal * signalWeights[name];
+      totalWeight += signalWeights[name];
+    }
+  });
+  const score = totalWeight > 0 ? weightedSum / totalWeight : 1;
+
+  let rejectReason: string | undefined;
+  if (signals.text !== undefined && signals.text < thresholds.minTextSimilarity) {
+    rejectReason = `text similarity ${signals.text.toFixed(2)} < ${thresholds.minTextSimilarity}`;
+  } else if (duration.signal !== undefined && duration.deltaS > thresholds.maxDurationDeltaS) {
+    rejectReason = `duration off by ${duration.deltaS.toFixed(1)}s > ${thresholds.maxDurationDeltaS}s`;
+  } else if (score < thresholds.minScore) {
+    rejectReason = `score ${score.toFixed(2)} < ${thresholds.minScore}`;
+  }
+
+  return { score, signals, accepted: rejectReason === undefined, rejectReason };
+}
+
+/**
+ * Describes why a candidate was accepted or rejected, with the signals that went into its score.
+ */
+export function describeMatchScore(matchScore: MatchScore): string {
+  const signals = Object.entries(matchScore.signals)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `${name}=${(value as number).toFixed(2)}`)
+    .join(", ");
+
+  if (matchScore.accepted) {
+    return `match with score ${matchScore.score.toFixed(2)} (${signals})`;
+  }
+  return `rejected: ${matchScore.rejectReason} (${signals})`;
+}
+
+/**
+ * Logs the score breakdown of a candidate.
+ */
+export function logMatchScore(source: string, matchScore: MatchScore): void {
+  Utils.log(`[BetterLyrics] Lyrics from ${source} ${describeMatchScore(matchScore)}`);
+}
@@ -0,0 +1,120 @@
+/**
+ * @fileoverview Model of the play queue, built from the queue panel contents of sniffed /next responses.
+ * Other modules read the queue or subscribe to its changes instead of parsing responses themselves.
+ */
+
+/** A song in the play queue, as listed by the queue panel */
+export interface QueueItem {
+  videoId: string;
+  /** Id of the audio or video version of the song, if it has both */
+  counterpartVideoId: string | null;
+  song: string;
+  artist: string;
+  album: string | null;
+  /** Song duration in seconds, 0 when the queue doesn't list it */
+  duration: number;
+  /** Index of the song in the queue */
+  position: number;
+}
+
+export type QueueListener = (queue: readonly QueueItem[]) => void;
+
+let queue: QueueItem[] = [];
+const queueListeners = new Set<QueueListener>();
+
+function parseDuration(text: string | undefined): number {
+  if (!text) {
+    return 0;
+  }
+  const seconds = text.split(":").reduce((total, part) => total * 60 + Number(part), 0);
+  return Number.isFinite(seconds) ? seconds : 0;
+}
+
+/**
+ * Reads a queue item from an entry of `playlistPanelRenderer.contents`. Songs that have both an audio and a video
+ * version come wrapped in a `playlistPanelVideoWrapperRenderer`, the version that's queued is the primary one.
+ *
+ * @returns The item without its position, or null if the entry isn't a song
+ */
+function parseQueueItem(content: any): Omit<QueueItem, "position"> | null {
+  const wrapper = content?.playlistPanelVideoWrapperRenderer;
+  const renderer = wrapper ? wrapper.primaryRenderer?.playlistPanelVideoRenderer : content?.playlistPanelVideoRenderer;
+  const videoId = renderer?.videoId;
+  const song = renderer?.title?.runs?.[0]?.text;
+  if (!videoId || !song) {
+    return null;
+  }
+
+  const bylineRuns: any[] = renderer.longBylineText?.runs ?? [];
+  const albumRun = bylineRuns.find(
+    run =>
+      run.navigationEndpoint?.browseEndpoint?.browseEndpointContextSupportedConfigs?.browseEndpointContextMusicConfig
+        ?.pageType === "MUSIC_PAGE_TYPE_ALBUM"
+  );
+
+  return {
+    videoId,
+    counterpartVideoId: wrapper?.counterpart?.[0]?.counterpartRenderer?.playlistPanelVideoRenderer?.videoId ?? null,
+    song,
+    artist: (renderer.shortBylineText?.runs ?? []).map((run: any) => run.text).join(""),
+    album: albumRun?.text ?? null,
+    duration: parseDuration(renderer.lengthText?.runs?.[0]?.text),
+  };
+}
+
+function isSameQueue(a: readonly QueueItem[], b: readonly QueueItem[]): boolean {
+  return a.length === b.length && a.every((item, index) => item.videoId === b[index].videoId);
+}
+
+/**
+ * Updates the queue from the contents of a queue panel.
+ *
+ * @param contents - `playlistPanelRenderer.contents` of a response
+ * @param append - Whether the contents extend the queue instead of replacing it,
+ * songs that are already queued are skipped then
+ * @returns The updated queue
+ */
+export function updateQueue(contents: any[], append = false): readonly QueueItem[] {
+  const items = contents.map(parseQueueItem).filter(item => item !== null);
+  let merged: Omit<QueueItem, "position">[] = items;
+  if (append) {
+    const queuedIds = new Set(queue.map(item => item.videoId));
+    merged = [...queue, ...items.filter(item => !queuedIds.has(item.videoId))];
+  }
+
+  const newQueue = merged.map((item, position) => ({ ...item, position }));
+  const changed = !isSameQueue(queue, newQueue);
+  queue = newQueue;
+
+  if (changed) {
+    queueListeners.forEach(listener => listener(queue));
+  }
+  return queue;
+}
+
+/**
+ * Lists the songs of the play queue in playing order, including the current one.
+ */
+export function getQueue(): readonly QueueItem[] {
+  return queue;
+}
+
+/**
+ * Finds a song in the queue by either of its video ids.
+ */
+export function findQueueItem(videoId: string): QueueItem | null {
+  return queue.find(item => item.videoId === videoId || item.counterpartVideoId === videoId) ?? null;
+}
+
+/**
+ * Calls the listener whenever the songs in the queue or their order change.
+ *
+ * @param listener - Receives the new queue
+ * @returns Stops the listener from being called
+ */
+export function subscribeToQueue(listener: QueueListener): () => void {
+  queueListeners.add(listener);
+  return () => {
+    queueListeners.delete(listener);
+  };
+}
@@ -0,0 +1,137 @@
+/**
+ * @fileoverview Fetches lyrics for the next songs of the play queue while the page is idle,
+ * so they are already cached by the time a song starts playing.
+ */
+
+import * as Constants from "@constants";
+import * as Utils from "@utils";
+import type { PlayerDetails } from "@/index";
+import { AppState } from "@/index";
+import * as Lyrics from "./lyrics";
+import type { QueueItem } from "./playQueue";
+import * as PlayQueue from "./playQueue";
+
+let currentSong: PlayerDetails | null = null;
+/** Upcoming songs waiting for a free slot, in queue order */
+let pendingSongs: QueueItem[] = [];
+/** Abort controllers of the songs being prefetched, by video id */
+const runningPrefetches = new Map<string, AbortController>();
+/** Songs whose lyrics were already prefetched this session */
+const prefetchedVideoIds = new Set<string>();
+
+function waitForIdle(signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const handle = requestIdleCallback(() => resolve(), { timeout: Constants.PREFETCH_IDLE_TIMEOUT_MS });
+    signal.addEventListener(
+      "abort",
+      () => {
+        cancelIdleCallback(handle);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
+
+/**
+ * Lists the songs that play after the current one, up to the configured prefetch count.
+ */
+function getUpcomingSongs(): QueueItem[] {
+  const song = currentSong;
+  if (!song || AppState.prefetchCount <= 0) {
+    return [];
+  }
+
+  const current = PlayQueue.findQueueItem(song.videoId);
+  if (!current) {
+    return [];
+  }
+  return PlayQueue.getQueue().slice(current.position + 1, current.position + 1 + AppState.prefetchCount);
+}
+
+async function prefetchSong(item: QueueItem, signal: AbortSignal): Promise<void> {
+  // The lyrics of the current song come first
+  await AppState.lyricInjectionPromise;
+  await waitForIdle(signal);
+  if (signal.aborted || !currentSong) {
+    return;
+  }
+
+  await Lyrics.preFetchLyrics(
+    {
+      currentTime: 0,
+      videoId: item.videoId,
+      song: item.song,
+      artist: item.artist,
+      duration: String(item.duration),
+      audioTrackData: { captionTracks: [] },
+      browserTime: 0,
+      playing: false,
+      // Picks the same audio or video id the player will once the song plays
+      contentRect: currentSong.contentRect,
+    },
+    signal
+  );
+}
+
+function startPendingPrefetches(): void {
+  while (runningPrefetches.size < Constants.PREFETCH_CONCURRENCY && pendingSongs.length > 0) {
+    const item = pendingSongs.shift()!;
+    const controller = new AbortController();
+    runningPrefetches.set(item.videoId, controller);
+
+    prefetchSong(item, controller.signal)
+      .then(() => {
+        if (!controller.signal.aborted) {
+          prefetchedVideoIds.add(item.videoId);
+        }
+      })
+      .catch(err => {
+        if (!controller.signal.aborted) {
+          Utils.log(Constants.GENERAL_ERROR_LOG, err);
+        }
+      })
+      .finally(() => {
+        if (runningPrefetches.get(item.videoId) === controller) {
+          runningPrefetches.delete(item.videoId);
+        }
+        startPendingPrefetches();
+      });
+  }
+}
+
+/**
+ * Brings the prefetches in line with the current song and queue. Prefetches of songs that are no longer
+ * coming up are cancelled, songs that are still coming up keep their running prefetch.
+ */
+export function schedulePrefetch(): void {
+  const upcoming = getUpcomingSongs().filter(item => !prefetchedVideoIds.has(item.videoId));
+  const upcomingIds = new Set(upcoming.map(item => item.videoId));
+
+  runningPrefetches.forEach((controller, videoId) => {
+    if (!upcomingIds.has(videoId)) {
+      controller.abort("Song is no longer coming up in the queue");
+      runningPrefetches.delete(videoId);
+    }
+  });
+
+  pendingSongs = upcoming.filter(item => !runningPrefetches.has(item.videoId));
+  startPendingPrefetches();
+}
+
+/**
+ * Prefetches the songs that come after a newly started song.
+ *
+ * @param detail - Details of the song that started playing
+ */
+export function onSongChange(detail: PlayerDetails): void {
+  currentSong = detail;
+  schedulePrefetch();
+}
+
+/**
+ * Reschedules prefetches whenever the play queue changes.
+ */
+export function setupPrefetch(): void {
+  PlayQueue.subscribeToQueue(() => schedulePrefetch());
+}
@@ -199,6 +199,10 @@ interface TtmlElement {
  */
 interface TtmlRootObject {
   tt: TtmlElement[];
+  ":@"?: {
+    "@_timing"?: string;
+    "@_lang"?: string;
+  };
 }
 
 /**
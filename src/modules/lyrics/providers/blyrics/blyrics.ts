@@ -6,6 +6,7 @@ import type {
 } from "@modules/lyrics/providers/blyrics/blyrics-types";
 import { parseTime } from "@modules/lyrics/providers/lrcUtils";
 import type { Lyric, LyricPart, LyricSourceResult, ProviderParameters } from "@modules/lyrics/providers/shared";
+import type { QueryVariant } from "@modules/lyrics/queryNormalization";
 import { type X2jOptions, XMLParser } from "fast-xml-parser";
 
 function parseLyricPart(p: ParagraphElementOrBackground[], beginTime: number, ignoreSpanSpace = false) {
@@ -62,7 +63,18 @@ function parseLyricPart(p: ParagraphElementOrBackground[], beginTime: number, ig
   };
 }
 
-export async function fillTtml(responseString: string, providerParameters: ProviderParameters) {
+export interface ParsedTtml {
+  lyrics: Lyric[];
+  language: string | undefined;
+  isWordSynced: boolean;
+}
+
+/**
+ * Parses an Apple style TTML document into lyric lines.
+ *
+ * @returns The parsed lines, or null when the document has no timing data
+ */
+export async function parseTtml(responseString: string): Promise<ParsedTtml | null> {
   const options: X2jOptions = {
     ignoreAttributes: false,
     attributeNamePrefix: "@_",
@@ -82,21 +94,19 @@ export async function fillTtml(responseString: string, providerParameters: Provi
 
   let lyrics = [] as Lyric[];
 
-  const tt = rawObj[0].tt;
+  // The XML declaration, if any, is parsed as its own node before <tt>
+  const tt = rawObj.find(e => e.tt)!.tt;
   const ttHead = tt.find(e => e.head)!.head!;
   const ttBodyContainer = tt.find(e => e.body)!;
   const ttBody = ttBodyContainer.body!;
   const ttMeta = ttBodyContainer[":@"];
+  const ttAttributes = rawObj.find(e => e.tt)![":@"];
 
   const lines = ttBody.flatMap(e => e.div);
 
   const hasTimingData = lines.length > 0 && lines[0][":@"] !== undefined;
   if (!hasTimingData) {
-    providerParameters.sourceMap["bLyrics-richsynced"].lyricSourceResult = null;
-    providerParameters.sourceMap["bLyrics-richsynced"].filled = true;
-    providerParameters.sourceMap["bLyrics-synced"].lyricSourceResult = null;
-    providerParameters.sourceMap["bLyrics-synced"].filled = true;
-    return;
+    return null;
   }
 
   let isWordSynced = false;
@@ -163,16 +173,171 @@ export async function fillTtml(responseString: string, providerParameters: Provi
     }
   }
 
+  return {
+    lyrics,
+    language: ttMeta?.["@_lang"] ?? ttAttributes?.["@_lang"],
+    isWordSynced,
+  };
+}
+
+export interface TtmlSerializeOptions {
+  language?: string | null;
+  /** Song duration in milliseconds, the body is extended to it if the lyrics end earlier */
+  durationMs?: number;
+}
+
+/** `mm:ss.mmm`, or `h:mm:ss.mmm` past an hour */
+function formatTtmlTime(ms: number): string {
+  ms = Math.max(Math.round(ms), 0);
+  const pad = (value: number, length = 2) => String(Math.floor(value)).padStart(length, "0");
+  const time = `${pad((ms / 60000) % 60)}:${pad((ms / 1000) % 60)}.${pad(ms % 1000, 3)}`;
+  return ms >= 3600000 ? `${Math.floor(ms / 3600000)}:${time}` : time;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/**
+ * Writes word parts the way {@link parseLyricPart} reads them back. Parts without a duration that start
+ * where the previous one ended are written as plain text, which is how the parser creates them.
+ */
+function serializeParts(parts: LyricPart[], lineStartMs: number): string {
+  let xml = "";
+  let inBackground = false;
+  let previousEndMs = lineStartMs;
+
+  parts.forEach(part => {
+    if (part.words.length === 0) {
+      return;
+    }
+    if (!!part.isBackground !== inBackground) {
+      xml += inBackground ? "</span>" : `<span ttm:role="x-bg">`;
+      inBackground = !inBackground;
+    }
+
+    if (part.durationMs === 0 && part.startTimeMs === previousEndMs) {
+      xml += escapeXml(part.words);
+    } else {
+      const begin = formatTtmlTime(part.startTimeMs);
+      const end = formatTtmlTime(part.startTimeMs + part.durationMs);
+      xml += `<span begin="${begin}" end="${end}">${escapeXml(part.words)}</span>`;
+    }
+    previousEndMs = part.startTimeMs + part.durationMs;
+  });
+
+  if (inBackground) {
+    xml += "</span>";
+  }
+  return xml;
+}
+
+function serializeTranslations(lyrics: Lyric[]): string {
+  const langCounts = new Map<string, number>();
+  lyrics.forEach(lyric => {
+    if (lyric.translation?.text) {
+      langCounts.set(lyric.translation.lang, (langCounts.get(lyric.translation.lang) ?? 0) + 1);
+    }
+  });
+  if (langCounts.size === 0) {
+    return "";
+  }
+
+  // The format holds a single translation per line, so keep the language most lines have
+  const lang = [...langCounts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+  const texts = lyrics
+    .map((lyric, index) =>
+      lyric.translation?.text && lyric.translation.lang === lang
+        ? `<text for="L${index + 1}">${escapeXml(lyric.translation.text)}</text>`
+        : ""
+    )
+    .join("");
+  return `<translations><translation type="replacement" xml:lang="${escapeXml(lang)}">${texts}</translation></translations>`;
+}
+
+function serializeTransliterations(lyrics: Lyric[]): string {
+  const texts = lyrics
+    .map((lyric, index) => {
+      if (!lyric.romanization) {
+        return "";
+      }
+      const content =
+        lyric.timedRomanization && lyric.timedRomanization.length > 0
+          ? serializeParts(lyric.timedRomanization, lyric.startTimeMs)
+          : escapeXml(lyric.romanization);
+      return `<text for="L${index + 1}">${content}</text>`;
+    })
+    .join("");
+  return texts ? `<transliterations><transliteration>${texts}</transliteration></transliterations>` : "";
+}
+
+/**
+ * Writes lyrics as Apple style TTML. Parsing the result with {@link parseTtml} gives back the same lyrics,
+ * including word timings, agents, background vocals, translations and romanizations,
+ * so it can be used to archive edited lyrics.
+ *
+ * The output has no whitespace between elements since the parser would read it as lyric text.
+ *
+ * @param lyrics - Lyrics to write
+ * @param options - Document level details
+ */
+export function serializeTtml(lyrics: Lyric[], options: TtmlSerializeOptions = {}): string {
+  const isWordSynced = lyrics.some(lyric => lyric.parts && lyric.parts.length > 0);
+  const endMs = Math.max(options.durationMs ?? 0, ...lyrics.map(lyric => lyric.startTimeMs + lyric.durationMs));
+  const lang = options.language ? ` xml:lang="${escapeXml(options.language)}"` : "";
+
+  const agents = [...new Set(lyrics.map(lyric => lyric.agent).filter(Boolean))] as string[];
+  const agentXml = agents
+    .map(agent => `<ttm:agent type="${agent === "v1000" ? "group" : "person"}" xml:id="${escapeXml(agent)}"/>`)
+    .join("");
+
+  const iTunesMetadata = serializeTranslations(lyrics) + serializeTransliterations(lyrics);
+  const iTunesXml = iTunesMetadata
+    ? `<iTunesMetadata xmlns="http://music.apple.com/lyric-ttml-internal">${iTunesMetadata}</iTunesMetadata>`
+    : "";
+
+  const paragraphs = lyrics
+    .map((lyric, index) => {
+      const begin = formatTtmlTime(lyric.startTimeMs);
+      const end = formatTtmlTime(lyric.startTimeMs + lyric.durationMs);
+      const agent = lyric.agent ? ` ttm:agent="${escapeXml(lyric.agent)}"` : "";
+      const content =
+        lyric.parts && lyric.parts.length > 0 ? serializeParts(lyric.parts, lyric.startTimeMs) : escapeXml(lyric.words);
+      return `<p begin="${begin}" end="${end}" itunes:key="L${index + 1}"${agent}>${content}</p>`;
+    })
+    .join("");
+
+  const firstBegin = formatTtmlTime(lyrics[0]?.startTimeMs ?? 0);
+  return (
+    `<tt xmlns="http://www.w3.org/ns/ttml" xmlns:itunes="http://music.apple.com/lyric-ttml-internal" ` +
+    `xmlns:ttm="http://www.w3.org/ns/ttml#metadata" itunes:timing="${isWordSynced ? "Word" : "Line"}"${lang}>` +
+    `<head><metadata>${agentXml}${iTunesXml}</metadata></head>` +
+    `<body dur="${formatTtmlTime(endMs)}"${lang}>` +
+    `<div begin="${firstBegin}" end="${formatTtmlTime(endMs)}">${paragraphs}</div>` +
+    `</body></tt>`
+  );
+}
+
+export async function fillTtml(responseString: string, providerParameters: ProviderParameters) {
+  const parsed = await parseTtml(responseString);
+  if (!parsed) {
+    providerParameters.sourceMap["bLyrics-richsynced"].lyricSourceResult = null;
+    providerParameters.sourceMap["bLyrics-richsynced"].filled = true;
+    providerParameters.sourceMap["bLyrics-synced"].lyricSourceResult = null;
+    providerParameters.sourceMap["bLyrics-synced"].filled = true;
+    return;
+  }
+
   let result: LyricSourceResult = {
     cacheAllowed: true,
-    language: ttMeta["@_lang"],
-    lyrics: lyrics,
+    language: parsed.language,
+    lyrics: parsed.lyrics,
     musicVideoSynced: false,
     source: "boidu.dev",
     sourceHref: "https://boidu.dev/",
   };
 
-  if (isWordSynced) {
+  if (parsed.isWordSynced) {
     providerParameters.sourceMap["bLyrics-richsynced"].lyricSourceResult = result;
     providerParameters.sourceMap["bLyrics-synced"].lyricSourceResult = null;
   } else {
@@ -184,30 +349,52 @@ export async function fillTtml(responseString: string, providerParameters: Provi
   providerParameters.sourceMap["bLyrics-richsynced"].filled = true;
 }
 
-export default async function bLyrics(providerParameters: ProviderParameters): Promise<void> {
-  // Fetch from the primary API if cache is empty or invalid
+async function fetchBLyricsTtml(
+  providerParameters: ProviderParameters,
+  query: QueryVariant,
+  signal: AbortSignal
+): Promise<string | null> {
   const url = new URL(Constants.LYRICS_API_URL);
-  url.searchParams.append("s", providerParameters.song);
-  url.searchParams.append("a", providerParameters.artist);
+  url.searchParams.append("s", query.song);
+  url.searchParams.append("a", query.artist);
   url.searchParams.append("d", String(providerParameters.duration));
   if (providerParameters.album != null) {
     url.searchParams.append("al", providerParameters.album);
   }
 
-  const response = await fetch(url.toString(), {
-    signal: AbortSignal.any([providerParameters.signal, AbortSignal.timeout(10000)]),
-  });
+  const response = await fetch(url.toString(), { signal });
 
+  if (response.status >= 500) {
+    // Counts towards the provider's health, unlike a plain miss
+    throw new Error(`bLyrics responded with ${response.status}`);
+  }
   if (!response.ok) {
-    providerParameters.sourceMap["bLyrics-richsynced"].filled = true;
-    providerParameters.sourceMap["bLyrics-richsynced"].lyricSourceResult = null;
-
-    providerParameters.sourceMap["bLyrics-synced"].filled = true;
-    providerParameters.sourceMap["bLyrics-synced"].lyricSourceResult = null;
+    return null;
+  }
+  return await response.json().then(json => json.ttml || null);
+}
 
-    return;
+export default async function bLyrics(providerParameters: ProviderParameters): Promise<void> {
+  // Fetch from the primary API if cache is empty or invalid
+  const queries = [
+    { song: providerParameters.song, artist: providerParameters.artist },
+    ...providerParameters.queryVariants,
+  ];
+
+  // One timeout for every variant, so retrying can't run past the race's deadline
+  const signal = AbortSignal.any([providerParameters.signal, AbortSignal.timeout(10000)]);
+
+  for (const query of queries) {
+    const responseString = await fetchBLyricsTtml(providerParameters, query, signal);
+    if (responseString) {
+      await fillTtml(responseString, providerParameters);
+      return;
+    }
   }
 
-  let responseString: string = await response.json().then(json => json.ttml);
-  await fillTtml(responseString, providerParameters);
+  providerParameters.sourceMap["bLyrics-richsynced"].filled = true;
+  providerParameters.sourceMap["bLyrics-richsynced"].lyricSourceResult = null;
+
+  providerParameters.sourceMap["bLyrics-synced"].filled = true;
+  providerParameters.sourceMap["bLyrics-synced"].lyricSourceResult = null;
 }
@@ -0,0 +1,71 @@
+/**
+ * @fileoverview Upgrades cached lyrics written with an older cache format.
+ * Whenever {@link LYRIC_CACHE_VERSION} is bumped, register a migration from the previous version below,
+ * otherwise entries of older versions are purged after the update instead of being kept around unused.
+ */
+
+import * as LyricsCache from "@core/lyricsCache";
+import type { LyricSourceResult } from "./shared";
+
+/** Current version of the lyrics cache format */
+export const LYRIC_CACHE_VERSION = "2.0.0";
+
+export type CachedLyricSourceResult = LyricSourceResult & { version: string };
+
+interface CacheMigration {
+  /** Version the migration upgrades from */
+  from: string;
+  /** Version the migrated payload has */
+  to: string;
+  /** Returns the upgraded payload, or null if the entry cannot be upgraded */
+  migrate: (payload: Record<string, any>) => Record<string, any> | null;
+}
+
+/**
+ * Migrations from older cache formats, each moving a payload one version forward.
+ * Payloads are upgraded by chaining them until they reach {@link LYRIC_CACHE_VERSION}.
+ */
+const cacheMigrations: CacheMigration[] = [];
+
+/**
+ * Upgrades a cached payload to the current cache format.
+ *
+ * @param payload - Parsed cache entry
+ * @returns The payload in the current format, or null if no chain of migrations reaches it
+ */
+export function migrateCachedLyrics(payload: Record<string, any> | null): CachedLyricSourceResult | null {
+  let migrated = payload;
+  // Every migration can apply at most once, which also stops migrations that loop back
+  for (let step = 0; migrated && migrated.version !== LYRIC_CACHE_VERSION; step++) {
+    const migration = cacheMigrations.find(migration => migration.from === migrated!.version);
+    if (!migration || step >= cacheMigrations.length) {
+      return null;
+    }
+    const next = migration.migrate(migrated);
+    migrated = next && { ...next, version: migration.to };
+  }
+  return migrated as CachedLyricSourceResult | null;
+}
+
+/**
+ * Brings every cached entry to the current cache format, purging entries that cannot be migrated
+ * so they stop counting against the cache budget. Runs in the background after the extension updates.
+ */
+export async function migrateLyricsCache(): Promise<void> {
+  try {
+    const { rewritten, removed } = await LyricsCache.rewriteLyricsCache(value => {
+      const payload = JSON.parse(value);
+      if (payload?.version === LYRIC_CACHE_VERSION) {
+        return value;
+      }
+      const migrated = migrateCachedLyrics(payload);
+      return migrated && JSON.stringify(migrated);
+    });
+
+    if (rewritten > 0 || removed > 0) {
+      console.log(`[BetterLyrics] Migrated ${rewritten} cached lyrics, purged ${removed} that could not be migrated`);
+    }
+  } catch (err) {
+    console.log("[BetterLyrics] Failed to migrate the lyrics cache", err);
+  }
+}
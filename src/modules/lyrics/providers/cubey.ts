@@ -207,6 +207,11 @@ export default async function cubey(providerParameters: ProviderParameters): Pro
     response = await makeApiCall(jwt);
   }
 
+  if (response.status >= 500) {
+    // Counts towards the provider's health, unlike a plain miss
+    throw new Error(`Cubey responded with ${response.status}`);
+  }
+
   if (!response.ok) {
     console.error(`[BetterLyrics] API request failed with status: ${response.status}`);
     (["musixmatch-synced", "musixmatch-richsync", "lrclib-synced", "lrclib-plain"] as const).forEach(source => {
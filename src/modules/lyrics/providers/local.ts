@@ -0,0 +1,59 @@
+import * as Utils from "@utils";
+import { findLocalLyrics, type LocalLyricsEntry } from "@core/localLyricsStore";
+import { parseTtml } from "./blyrics/blyrics";
+import { parseLRC, parsePlainLyrics } from "./lrcUtils";
+import { parseSRT, parseWebVTT } from "./subtitleUtils";
+import type { LyricsArray, ProviderParameters } from "./shared";
+
+async function parseLocalLyrics(entry: LocalLyricsEntry, duration: number): Promise<LyricsArray | null> {
+  switch (entry.format) {
+    case "ttml": {
+      const parsed = await parseTtml(entry.text);
+      return parsed ? parsed.lyrics : null;
+    }
+    case "lrc":
+      return parseLRC(entry.text, duration);
+    case "srt":
+      return parseSRT(entry.text);
+    case "vtt":
+      return parseWebVTT(entry.text);
+    case "plain":
+      return parsePlainLyrics(entry.text);
+  }
+}
+
+/**
+ * Fills the "local" source from lyric files the user imported, matched by video id or song/artist/duration.
+ * Results are never cached since the store itself is the persistent copy.
+ */
+export default async function localLyrics(providerParameters: ProviderParameters): Promise<void> {
+  const source = providerParameters.sourceMap["local"];
+
+  const entry = await findLocalLyrics({
+    videoId: providerParameters.videoId,
+    song: providerParameters.song,
+    artist: providerParameters.artist,
+    duration: Number(providerParameters.duration),
+  });
+
+  source.lyricSourceResult = null;
+  if (entry) {
+    try {
+      const lyrics = await parseLocalLyrics(entry, Number(providerParameters.duration));
+      if (lyrics && lyrics.length > 0) {
+        Utils.log("[BetterLyrics] Using local lyrics", entry.fileName ?? entry.id);
+        source.lyricSourceResult = {
+          lyrics,
+          source: "Local file",
+          sourceHref: "",
+          musicVideoSynced: false,
+          cacheAllowed: false,
+        };
+      }
+    } catch (err) {
+      Utils.log("[BetterLyrics] Failed to parse local lyrics", err);
+    }
+  }
+
+  source.filled = true;
+}
@@ -4,6 +4,37 @@ import { parseJsonNumber } from "ajv/dist/runtime/parseJson";
 
 const possibleIdTags = ["ti", "ar", "al", "au", "lr", "length", "by", "offset", "re", "tool", "ve", "#"];
 
+/**
+ * Voice markers at the start of a line, optionally after its first word timestamp (`v1:`, `M:`, `F:`, `D:`).
+ */
+const voiceMarkerRegex = /^(<\d+:\d+(?:\.\d+)?>)?\s*(v\d+|[FMD]):\s*/;
+
+/**
+ * Maps duet markers onto the agents TTML uses, so both get the same styling.
+ * Male and female parts become the first and second voice, "D" (both) matches TTML's group agent.
+ */
+const voiceMarkerToAgent: { [marker: string]: string } = {
+  M: "v1",
+  F: "v2",
+  D: "v1000",
+};
+
+/**
+ * Marks word parts inside parentheses as background vocals, e.g. `<00:01.00>Hey <00:01.50>(hey)`.
+ */
+function markBackgroundParts(parts: LyricPart[]): void {
+  let depth = 0;
+  parts.forEach(part => {
+    if (depth > 0 || part.words.trimStart().startsWith("(")) {
+      part.isBackground = true;
+    }
+    for (const char of part.words) {
+      if (char === "(") depth++;
+      else if (char === ")") depth = Math.max(depth - 1, 0);
+    }
+  });
+}
+
 /**
  * Parse time in [mm:ss.xx] or <mm:ss.xx> format to milliseconds
  */
@@ -41,40 +72,73 @@ export function parseTime(timeStr: string | number | undefined): number {
 }
 
 /**
+ * Parses LRC and enhanced LRC (A2 extension) lyrics.
  *
- * @param lrcText
- * @param songDuration
- * @return
+ * - Lines with several time tags (`[00:30.00][01:45.00]chorus`) are repeated at every tag
+ * - `[offset:]` is in milliseconds, positive values make lyrics appear earlier
+ * - `[length:]` takes precedence over `songDuration` to end the last line
+ * - Voice markers set the agent of that line and every following line until the next marker
+ * - Parenthesized words of enhanced lines are background vocals
+ *
+ * @param lrcText - LRC file contents
+ * @param songDuration - Duration of the song in seconds, used to end the last line
+ * @return Lines sorted by start time
  */
 export function parseLRC(lrcText: string, songDuration: number): LyricsArray {
   const lines = lrcText.split("\n");
   const result: LyricsArray = [];
   const idTags = {} as any;
 
-  // Process each line
+  // ID tags may appear anywhere, but they apply to the whole file, so read them first
   lines.forEach(line => {
-    line = line.trim();
-
-    // Match ID tags [type:value]
-    const idTagMatch = line.match(/^[\[](\w+):(.*)[\]]$/);
+    const idTagMatch = line.trim().match(/^[\[](\w+):(.*)[\]]$/);
     if (idTagMatch && possibleIdTags.includes(idTagMatch[1])) {
-      idTags[idTagMatch[1]] = idTagMatch[2];
-      return;
+      idTags[idTagMatch[1]] = idTagMatch[2].trim();
+    }
+  });
+
+  let offset = 0;
+  if (idTags["offset"]) {
+    offset = Number(idTags["offset"]);
+    if (isNaN(offset)) {
+      offset = 0;
+      Utils.log("[BetterLyrics] Invalid offset in lyrics: " + idTags["offset"]);
+    }
+  }
+
+  let songDurationMs = songDuration * 1000;
+  if (idTags["length"]) {
+    const lengthMs = parseTime(idTags["length"]);
+    if (lengthMs > 0) {
+      songDurationMs = lengthMs;
     }
+  }
+
+  let currentAgent: string | undefined;
 
-    // Match time tags with lyrics
-    const timeTagRegex = /[\[](\d+:\d+\.\d+)[\]]/g;
-    const enhancedWordRegex = /<(\d+:\d+\.\d+)>/g;
+  // Process each line
+  lines.forEach(line => {
+    line = line.trim();
+
+    // Match time tags with lyrics, the fraction is optional
+    const timeTagRegex = /[\[](\d+:\d+(?:\.\d+)?)[\]]/g;
+    const enhancedWordRegex = /<(\d+:\d+(?:\.\d+)?)>/g;
 
     const timeTags: number[] = [];
     let match;
     while ((match = timeTagRegex.exec(line)) !== null) {
-      timeTags.push(<number>parseTime(match[1]));
+      timeTags.push(<number>parseTime(match[1]) - offset);
     }
 
     if (timeTags.length === 0) return; // Skip lines without time tags
 
-    const lyricPart = line.replace(timeTagRegex, "").trim();
+    let lyricPart = line.replace(timeTagRegex, "").trim();
+
+    const voiceMatch = lyricPart.match(voiceMarkerRegex);
+    if (voiceMatch) {
+      currentAgent = voiceMarkerToAgent[voiceMatch[2]] ?? voiceMatch[2];
+      lyricPart = lyricPart.replace(voiceMarkerRegex, voiceMatch[1] ?? "");
+    }
 
     // Extract enhanced lyrics (if available)
     const parts: LyricPart[] = [];
@@ -96,7 +160,7 @@ export function parseLRC(lrcText: string, songDuration: number): LyricsArray {
         }
       } else {
         // This is a timestamp
-        const startTime = <number>parseTime(fragment);
+        const startTime = <number>parseTime(fragment) - offset;
         if (lastTime !== null && parts.length > 0) {
           parts[parts.length - 1].durationMs = startTime - lastTime;
         }
@@ -109,18 +173,25 @@ export function parseLRC(lrcText: string, songDuration: number): LyricsArray {
       }
     });
 
-    // Calculate fallback duration and add entry
-    const startTime = Math.min(...timeTags);
-    const endTime = Math.max(...timeTags);
-    const duration = endTime - startTime;
+    markBackgroundParts(parts);
 
-    result.push({
-      startTimeMs: startTime,
-      words: plainText.trim(),
-      durationMs: duration,
-      parts: parts.length > 0 ? parts : undefined,
+    // Word timings belong to the first occurrence, repeats get them shifted along with the line
+    const firstTime = timeTags[0];
+    timeTags.forEach(startTime => {
+      const shift = startTime - firstTime;
+      result.push({
+        startTimeMs: startTime,
+        words: plainText.trim(),
+        durationMs: 0,
+        agent: currentAgent,
+        parts: parts.length > 0 ? parts.map(part => ({ ...part, startTimeMs: part.startTimeMs + shift })) : undefined,
+      });
     });
   });
+
+  // Sort is stable, so lines sharing a timestamp keep their file order
+  result.sort((a, b) => a.startTimeMs - b.startTimeMs);
+
   result.forEach((lyric, index) => {
     if (index + 1 < result.length) {
       const nextLyric = result[index + 1];
@@ -139,30 +210,15 @@ export function parseLRC(lrcText: string, songDuration: number): LyricsArray {
       }
     } else {
       if (lyric.durationMs === 0) {
-        lyric.durationMs = songDuration - lyric.startTimeMs;
+        lyric.durationMs = Math.max(songDurationMs - lyric.startTimeMs, 0);
       }
       if (lyric.parts && lyric.parts.length > 0) {
         const lastPartInLyric = lyric.parts[lyric.parts.length - 1];
-        lastPartInLyric.durationMs = songDuration - lastPartInLyric.startTimeMs;
+        lastPartInLyric.durationMs = Math.max(songDurationMs - lastPartInLyric.startTimeMs, 0);
       }
     }
   });
 
-  if (idTags["offset"]) {
-    let offset = Number(idTags["offset"]);
-    if (isNaN(offset)) {
-      offset = 0;
-      Utils.log("[BetterLyrics] Invalid offset in lyrics: " + idTags["offset"]);
-    }
-    offset = offset * 1000;
-    result.forEach(lyric => {
-      lyric.startTimeMs -= offset;
-      lyric.parts?.forEach(part => {
-        part.startTimeMs -= offset;
-      });
-    });
-  }
-
   return result;
 }
 
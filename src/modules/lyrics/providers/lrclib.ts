@@ -2,11 +2,22 @@ import { type ProviderParameters } from "./shared";
 import * as Constants from "@constants";
 import * as Utils from "@utils";
 import { parseLRC, parsePlainLyrics } from "./lrcUtils";
+import type { QueryVariant } from "../queryNormalization";
 
-export default async function lyricLib(providerParameters: ProviderParameters): Promise<void> {
+interface LrclibResponse {
+  duration: number;
+  syncedLyrics?: string | null;
+  plainLyrics?: string | null;
+}
+
+async function fetchLrclib(
+  providerParameters: ProviderParameters,
+  query: QueryVariant,
+  signal: AbortSignal
+): Promise<LrclibResponse | null> {
   const url = new URL(Constants.LRCLIB_API_URL);
-  url.searchParams.append("track_name", providerParameters.song);
-  url.searchParams.append("artist_name", providerParameters.artist);
+  url.searchParams.append("track_name", query.song);
+  url.searchParams.append("artist_name", query.artist);
   if (providerParameters.album) {
     url.searchParams.append("album_name", providerParameters.album);
   }
@@ -16,17 +27,39 @@ export default async function lyricLib(providerParameters: ProviderParameters):
     headers: {
       "Lrclib-Client": Constants.LRCLIB_CLIENT_HEADER,
     },
-    signal: AbortSignal.any([providerParameters.signal, AbortSignal.timeout(10000)]),
+    signal,
   });
 
+  if (response.status >= 500) {
+    // Counts towards the provider's health, unlike a plain miss
+    throw new Error(`LRCLib responded with ${response.status}`);
+  }
   if (!response.ok) {
-    providerParameters.sourceMap["lrclib-synced"].filled = true;
-    providerParameters.sourceMap["lrclib-plain"].filled = true;
-    providerParameters.sourceMap["lrclib-synced"].lyricSourceResult = null;
-    providerParameters.sourceMap["lrclib-plain"].lyricSourceResult = null;
+    return null;
   }
+  return await response.json();
+}
 
-  const data = await response.json();
+export default async function lyricLib(providerParameters: ProviderParameters): Promise<void> {
+  providerParameters.sourceMap["lrclib-synced"].lyricSourceResult = null;
+  providerParameters.sourceMap["lrclib-plain"].lyricSourceResult = null;
+
+  const queries = [
+    { song: providerParameters.song, artist: providerParameters.artist },
+    ...providerParameters.queryVariants,
+  ];
+
+  // One timeout for every variant, so retrying can't run past the race's deadline
+  const signal = AbortSignal.any([providerParameters.signal, AbortSignal.timeout(10000)]);
+
+  let data: LrclibResponse | null = null;
+  for (const query of queries) {
+    data = await fetchLrclib(providerParameters, query, signal);
+    if (data && (data.syncedLyrics || data.plainLyrics)) {
+      break;
+    }
+    Utils.log("[BetterLyrics] LRCLib has no lyrics for", query.song, query.artist);
+  }
 
   if (data) {
     Utils.log(Constants.LRCLIB_LYRICS_FOUND_LOG);
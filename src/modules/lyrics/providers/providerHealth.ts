@@ -0,0 +1,166 @@
+/**
+ * @fileoverview Tracks how reliable each lyrics backend is and stops calling backends that keep failing.
+ * A backend's circuit opens after repeated failures, so songs skip it instead of waiting for its timeout,
+ * and half-opens after a cooldown to let a single request probe whether it recovered.
+ */
+
+import * as Constants from "@constants";
+import * as Utils from "@utils";
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface ProviderHealthRecord {
+  state: CircuitState;
+  consecutiveFailures: number;
+  /** When the circuit was last opened, null if it never was */
+  openedAt: number | null;
+  requests: number;
+  failures: number;
+  timeouts: number;
+  /** Latencies of the most recent successful requests, oldest first */
+  recentLatenciesMs: number[];
+  /** Whether each of the most recent requests succeeded, oldest first */
+  recentOutcomes: boolean[];
+  lastError: string | null;
+  lastFailureAt: number | null;
+}
+
+export type ProviderHealthMap = Record<string, ProviderHealthRecord>;
+
+/** Consecutive failures before the circuit opens */
+const FAILURE_THRESHOLD = 3;
+/** How long an open circuit skips the backend before probing it again */
+const COOLDOWN_MS = 5 * 60 * 1000;
+/** How many recent requests are kept for the success rate and median latency */
+const RECENT_SAMPLE_COUNT = 20;
+
+let healthPromise: Promise<ProviderHealthMap> | null = null;
+/** Backends with a half-open probe currently running in this tab */
+const probesInFlight = new Set<string>();
+
+function newRecord(): ProviderHealthRecord {
+  return {
+    state: "closed",
+    consecutiveFailures: 0,
+    openedAt: null,
+    requests: 0,
+    failures: 0,
+    timeouts: 0,
+    recentLatenciesMs: [],
+    recentOutcomes: [],
+    lastError: null,
+    lastFailureAt: null,
+  };
+}
+
+function loadHealth(): Promise<ProviderHealthMap> {
+  if (!healthPromise) {
+    healthPromise = chrome.storage.local
+      .get(Constants.PROVIDER_HEALTH_KEY)
+      .then(result => (result[Constants.PROVIDER_HEALTH_KEY] as ProviderHealthMap) || {})
+      .catch(err => {
+        Utils.log("[BetterLyrics] Failed to load provider health", err);
+        return {};
+      });
+
+    // Other tabs share the same backends, so pick up what they learned
+    chrome.storage.onChanged.addListener((changes, area) => {
+      if (area === "local" && changes[Constants.PROVIDER_HEALTH_KEY]) {
+        healthPromise = Promise.resolve((changes[Constants.PROVIDER_HEALTH_KEY].newValue as ProviderHealthMap) || {});
+      }
+    });
+  }
+  return healthPromise;
+}
+
+function pushSample<T>(samples: T[], sample: T): void {
+  samples.push(sample);
+  if (samples.length > RECENT_SAMPLE_COUNT) {
+    samples.splice(0, samples.length - RECENT_SAMPLE_COUNT);
+  }
+}
+
+async function updateRecord(service: string, update: (record: ProviderHealthRecord) => void): Promise<void> {
+  const health = await loadHealth();
+  // Records saved by older versions may lack newer fields
+  const record = { ...newRecord(), ...health[service] };
+  update(record);
+  health[service] = record;
+
+  try {
+    await chrome.storage.local.set({ [Constants.PROVIDER_HEALTH_KEY]: health });
+  } catch (err) {
+    Utils.log("[BetterLyrics] Failed to save provider health", err);
+  }
+}
+
+/**
+ * Checks whether a backend may be called. An open circuit whose cooldown passed moves to half-open
+ * and lets exactly one request through as a probe.
+ */
+export async function canRequest(service: string): Promise<boolean> {
+  const record = (await loadHealth())[service];
+  if (!record || record.state === "closed") {
+    return true;
+  }
+
+  if (record.state === "open" && Date.now() - (record.openedAt ?? 0) < COOLDOWN_MS) {
+    return false;
+  }
+
+  if (probesInFlight.has(service)) {
+    return false;
+  }
+  probesInFlight.add(service);
+  if (record.state === "open") {
+    await updateRecord(service, record => {
+      record.state = "half-open";
+    });
+    Utils.log(`[BetterLyrics] Probing ${service} to check whether it recovered`);
+  }
+  return true;
+}
+
+export async function recordSuccess(service: string, latencyMs: number): Promise<void> {
+  probesInFlight.delete(service);
+  await updateRecord(service, record => {
+    if (record.state !== "closed") {
+      Utils.log(`[BetterLyrics] ${service} recovered, closing its circuit`);
+    }
+    record.state = "closed";
+    record.consecutiveFailures = 0;
+    record.requests++;
+    pushSample(record.recentLatenciesMs, latencyMs);
+    pushSample(record.recentOutcomes, true);
+  });
+}
+
+export async function recordFailure(service: string, error: unknown): Promise<void> {
+  probesInFlight.delete(service);
+  await updateRecord(service, record => {
+    record.requests++;
+    record.failures++;
+    record.consecutiveFailures++;
+    pushSample(record.recentOutcomes, false);
+    if (error instanceof Error && error.name === "TimeoutError") {
+      record.timeouts++;
+    }
+    record.lastError = error instanceof Error ? error.message : String(error);
+    record.lastFailureAt = Date.now();
+
+    if (record.state === "half-open" || record.consecutiveFailures >= FAILURE_THRESHOLD) {
+      if (record.state !== "open") {
+        Utils.log(`[BetterLyrics] Opening circuit for ${service} after ${record.consecutiveFailures} failures`);
+      }
+      record.state = "open";
+      record.openedAt = Date.now();
+    }
+  });
+}
+
+/**
+ * Releases a probe whose request was cancelled by us, which says nothing about the backend's health.
+ */
+export function recordCancelled(service: string): void {
+  probesInFlight.delete(service);
+}
@@ -2,50 +2,39 @@ import * as Constants from "@constants";
 import * as Utils from "@utils";
 import bLyrics from "./blyrics/blyrics";
 import cubey, { type CubeyLyricSourceResult } from "./cubey";
+import localLyrics from "./local";
 import lyricLib from "./lrclib";
 import ytLyrics, { type YTLyricSourceResult } from "./yt";
 import { ytCaptions } from "./ytCaptions";
 import * as Storage from "@core/storage";
+import * as LyricsCache from "@core/lyricsCache";
+import * as ProviderHealth from "./providerHealth";
+import { LYRIC_CACHE_VERSION, migrateCachedLyrics } from "./cacheMigrations";
+import type { MatchScore } from "../matchScore";
+import type { QueryVariant } from "../queryNormalization";
+import type { CaptionTrack, MusicVideoType, Thumbnail } from "../requestSniffer";
 
-/** Current version of the lyrics cache format */
-const LYRIC_CACHE_VERSION = "2.0.0";
-
-interface AudioTrackData {
-  id: string;
-  kc: {
-    name: string;
-    id: string;
-    isDefault: boolean;
-  };
-  captionTracks: {
-    languageCode: string;
-    languageName: string;
-    kind: string;
-    name: string;
-    displayName: string;
-    id: string | null;
-    j: boolean;
-    isTranslateable: boolean;
-    url: string;
-    vssId: string;
-    isDefault: boolean;
-    translationLanguage: string | null;
-    xtags: string;
-    captionId: string;
-  }[];
-  C: any;
-  xtags: string;
-  G: boolean;
-  j: any | null;
-  B: string;
-  captionsInitialState: string;
-}
+/** How long a single provider may take in a race before it is treated as having no lyrics */
+const PROVIDER_DEADLINE_MS = 12000;
+/** How long providers that match by song info wait for Cubey's corrections before going with the song info as is */
+const METADATA_DEADLINE_MS = 5000;
+/** Providers that look songs up by song, artist, album and duration rather than by video id */
+const METADATA_DEPENDENT_PROVIDERS: readonly LyricSourceKey[] = [
+  "bLyrics-richsynced",
+  "bLyrics-synced",
+  "lrclib-synced",
+  "lrclib-plain",
+];
+/** Sources the lyrics cache never holds, their own store is the persistent copy and may change at any time */
+const UNCACHED_SOURCES: readonly LyricSourceKey[] = ["local"];
 
 interface LyricSource {
   filled: boolean;
   resultCached: boolean;
   lyricSourceResult: LyricSourceResult | CubeyLyricSourceResult | YTLyricSourceResult | null;
   lyricSourceFiller: (providerParameters: ProviderParameters) => Promise<void>;
+  /** How well the result matched the song, recorded when it was considered for display */
+  matchScore?: MatchScore;
 }
 
 export interface LyricSourceResult {
@@ -82,11 +71,18 @@ export interface ProviderParameters {
   artist: string;
   duration: number;
   videoId: string;
-  audioTrackData: AudioTrackData;
+  /** Video type of the song that is playing, null when its /player response wasn't sniffed */
+  musicVideoType: MusicVideoType | null;
+  /** Caption tracks of the video that is playing */
+  captionTracks: CaptionTrack[];
+  publishYear: number | null;
+  thumbnails: Thumbnail[];
   album: string | null;
   sourceMap: SourceMapType;
   alwaysFetchMetadata: boolean;
   signal: AbortSignal;
+  /** Alternative song/artist spellings to retry with when a provider finds nothing for the canonical query */
+  queryVariants: QueryVariant[];
 }
 
 export type SourceMapType = {
@@ -94,6 +90,7 @@ export type SourceMapType = {
 };
 
 let defaultPreferredProviderList: LyricSourceKey[] = [
+  "local",
   "bLyrics-richsynced",
   "musixmatch-richsync",
   "yt-captions",
@@ -114,13 +111,20 @@ export function initProviders(): void {
   const updateProvidersList = (preferredProviderList: string[] | null) => {
     let activeProviderList: string[] = preferredProviderList ?? [...defaultPreferredProviderList];
 
-    const isValid = defaultPreferredProviderList.every(provider => {
-      return activeProviderList.includes(provider) || activeProviderList.includes(`d_${provider}`);
+    const missingProviders = defaultPreferredProviderList.filter(provider => {
+      return !activeProviderList.includes(provider) && !activeProviderList.includes(`d_${provider}`);
     });
 
-    if (!isValid) {
+    if (missingProviders.length === defaultPreferredProviderList.length) {
       activeProviderList = [...defaultPreferredProviderList];
       Utils.log("Invalid preferred provider list, resetting to default");
+    } else if (missingProviders.length > 0) {
+      // Providers added in an update keep their default position relative to the user's order
+      missingProviders.forEach(provider => {
+        const defaultIndex = defaultPreferredProviderList.indexOf(provider);
+        activeProviderList.splice(Math.min(defaultIndex, activeProviderList.length), 0, provider);
+      });
+      Utils.log("Added new providers to preferred provider list", missingProviders);
     }
 
     // Use the type guard. The resulting array is known to be LyricSourceKey[]
@@ -142,6 +146,7 @@ export function initProviders(): void {
 }
 
 const sourceKeyToFillFn = {
+  local: localLyrics,
   "bLyrics-richsynced": bLyrics,
   "bLyrics-synced": bLyrics,
   "musixmatch-richsync": cubey,
@@ -169,6 +174,71 @@ export function newSourceMap(): SourceMapType {
   }));
 }
 
+/**
+ * Backend each source is fetched from, used to track its health. Sources that don't hit the network have none.
+ */
+const sourceKeyToService: { [key in LyricSourceKey]: string | null } = {
+  local: null,
+  "bLyrics-richsynced": "bLyrics",
+  "bLyrics-synced": "bLyrics",
+  "musixmatch-richsync": "cubey",
+  "musixmatch-synced": "cubey",
+  "lrclib-synced": "lrclib",
+  "lrclib-plain": "lrclib",
+  "yt-captions": "yt-captions",
+  "yt-lyrics": "yt-lyrics",
+};
+
+/** Fills currently running per source map, so sources sharing a filler only trigger one request */
+const inFlightFills = new WeakMap<SourceMapType, Map<LyricSource["lyricSourceFiller"], Promise<void>>>();
+
+async function runFiller(
+  providerParameters: ProviderParameters,
+  sourceName: LyricSourceKey,
+  ignoreCircuit = false
+): Promise<void> {
+  const filler = providerParameters.sourceMap[sourceName].lyricSourceFiller;
+  const service = sourceKeyToService[sourceName];
+  if (!service) {
+    return filler(providerParameters);
+  }
+
+  // Leave the sources unfilled so the skipped result isn't cached
+  if (!ignoreCircuit && !(await ProviderHealth.canRequest(service))) {
+    Utils.log(`[BetterLyrics] Skipping ${sourceName}, ${service} is failing`);
+    return;
+  }
+
+  const startTime = Date.now();
+  try {
+    await filler(providerParameters);
+    ProviderHealth.recordSuccess(service, Date.now() - startTime);
+  } catch (err) {
+    if (providerParameters.signal.aborted) {
+      ProviderHealth.recordCancelled(service);
+    } else {
+      ProviderHealth.recordFailure(service, err);
+    }
+    throw err;
+  }
+}
+
+function fillSource(providerParameters: ProviderParameters, sourceName: LyricSourceKey): Promise<void> {
+  let fills = inFlightFills.get(providerParameters.sourceMap);
+  if (!fills) {
+    fills = new Map();
+    inFlightFills.set(providerParameters.sourceMap, fills);
+  }
+
+  const filler = providerParameters.sourceMap[sourceName].lyricSourceFiller;
+  let fill = fills.get(filler);
+  if (!fill) {
+    fill = runFiller(providerParameters, sourceName).finally(() => fills.delete(filler));
+    fills.set(filler, fill);
+  }
+  return fill;
+}
+
 /**
  * @param providerParameters
  * @param sourceName
@@ -180,11 +250,16 @@ export async function getLyrics(
   let lyricSource = providerParameters.sourceMap[sourceName];
   if (!lyricSource.filled) {
     // Check cache first
-    const cacheKey = `blyrics_${providerParameters.videoId}_${sourceName}`;
-    const cachedData = await Storage.getTransientStorage(cacheKey);
+    const cachedData = UNCACHED_SOURCES.includes(sourceName)
+      ? null
+      : await LyricsCache.getCachedLyrics(providerParameters.videoId, sourceName).catch(err => {
+          Utils.log(Constants.GENERAL_ERROR_LOG, err);
+          return null;
+        });
     if (cachedData) {
-      const data = JSON.parse(cachedData);
-      if (data && data.version && data.version === LYRIC_CACHE_VERSION) {
+      // Entries of older cache formats are upgraded in the background on startup, this covers the ones it hasn't reached
+      const data = migrateCachedLyrics(JSON.parse(cachedData));
+      if (data) {
         lyricSource.filled = true;
         lyricSource.lyricSourceResult = data;
         lyricSource.resultCached = true;
@@ -192,24 +267,218 @@ export async function getLyrics(
       }
     }
 
-    await lyricSource.lyricSourceFiller(providerParameters);
+    await fillSource(providerParameters, sourceName);
   }
 
   // Save result to cache for each provider
+  const toCache: Record<string, string> = {};
   defaultPreferredProviderList.forEach(provider => {
     let source = providerParameters.sourceMap[provider];
-    if (source.filled && !source.resultCached && source.lyricSourceResult?.cacheAllowed !== false) {
+    if (
+      source.filled &&
+      !source.resultCached &&
+      source.lyricSourceResult?.cacheAllowed !== false &&
+      !UNCACHED_SOURCES.includes(provider)
+    ) {
       source.resultCached = true;
 
-      const cacheKey = `blyrics_${providerParameters.videoId}_${provider}`;
       let versionedData = {
         version: LYRIC_CACHE_VERSION,
         ...source.lyricSourceResult,
       };
-      const cacheTime = 7 * 24 * 60 * 60 * 1000;
-      Storage.setTransientStorage(cacheKey, JSON.stringify(versionedData), cacheTime);
+      toCache[provider] = JSON.stringify(versionedData);
     }
   });
+  if (Object.keys(toCache).length > 0) {
+    LyricsCache.setCachedLyrics(providerParameters.videoId, toCache, {
+      song: providerParameters.song,
+      artist: providerParameters.artist,
+    })
+      .then(() => Storage.saveCacheInfo())
+      .catch(err => Utils.log(Constants.GENERAL_ERROR_LOG, err));
+  }
 
   return lyricSource.lyricSourceResult;
 }
+
+export interface ProviderTestResult {
+  ok: boolean;
+  /** Number of lyric lines returned, 0 when the provider had no lyrics for the song */
+  lineCount: number;
+  latencyMs: number;
+  error?: string;
+}
+
+/**
+ * Runs a single provider for diagnostics. Skips the cache and the circuit breaker so the backend is always hit,
+ * but still records the outcome in the provider's health.
+ *
+ * @param providerParameters - Parameters of the song to look up, the source map is not touched
+ * @param sourceName - Provider to test
+ */
+export async function testProvider(
+  providerParameters: ProviderParameters,
+  sourceName: LyricSourceKey
+): Promise<ProviderTestResult> {
+  const testParameters: ProviderParameters = {
+    ...providerParameters,
+    sourceMap: newSourceMap(),
+    signal: AbortSignal.timeout(PROVIDER_DEADLINE_MS),
+  };
+
+  const startTime = Date.now();
+  try {
+    await runFiller(testParameters, sourceName, true);
+    const lyrics = testParameters.sourceMap[sourceName].lyricSourceResult?.lyrics;
+    return { ok: true, lineCount: lyrics?.length ?? 0, latencyMs: Date.now() - startTime };
+  } catch (err) {
+    return {
+      ok: false,
+      lineCount: 0,
+      latencyMs: Date.now() - startTime,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+/**
+ * Replaces the song, artist, album and duration with the ones of the song Cubey matched, which are more reliable
+ * than what YouTube Music shows, e.g. for music videos with extra words in their title.
+ *
+ * @param providerParameters - Parameters to correct in place
+ * @param signal - Cancels the lookup, e.g. once the race it belongs to is decided
+ */
+async function correctSongMetadata(providerParameters: ProviderParameters, signal: AbortSignal): Promise<void> {
+  let deadline: ReturnType<typeof setTimeout> | undefined;
+  const cubeyLyrics = (await Promise.race([
+    getLyrics({ ...providerParameters, signal }, "musixmatch-richsync").catch(err => {
+      if (!signal.aborted) {
+        Utils.log(err);
+      }
+      return null;
+    }),
+    new Promise<null>(resolve => {
+      deadline = setTimeout(() => resolve(null), METADATA_DEADLINE_MS);
+    }),
+  ]).finally(() => clearTimeout(deadline))) as CubeyLyricSourceResult | null;
+  if (!cubeyLyrics) {
+    return;
+  }
+
+  if (cubeyLyrics.album && cubeyLyrics.album.length > 0 && providerParameters.album !== cubeyLyrics.album) {
+    providerParameters.album = cubeyLyrics.album;
+  }
+  if (cubeyLyrics.song && cubeyLyrics.song.length > 0 && providerParameters.song !== cubeyLyrics.song) {
+    Utils.log("Using '" + cubeyLyrics.song + "' for song instead of '" + providerParameters.song + "'");
+    providerParameters.song = cubeyLyrics.song;
+  }
+  if (cubeyLyrics.artist && cubeyLyrics.artist.length > 0 && providerParameters.artist !== cubeyLyrics.artist) {
+    Utils.log("Using '" + cubeyLyrics.artist + "' for artist instead of '" + providerParameters.artist + "'");
+    providerParameters.artist = cubeyLyrics.artist;
+  }
+  if (cubeyLyrics.duration && providerParameters.duration !== cubeyLyrics.duration) {
+    Utils.log("Using '" + cubeyLyrics.duration + "' for duration instead of '" + providerParameters.duration + "'");
+    providerParameters.duration = cubeyLyrics.duration;
+  }
+}
+
+export interface RaceResult {
+  provider: LyricSourceKey;
+  lyrics: LyricSourceResult;
+}
+
+export interface RaceOptions {
+  /** Extra check a non-empty result has to pass to win */
+  accept?: (provider: LyricSourceKey, lyrics: LyricSourceResult) => boolean | Promise<boolean>;
+  /**
+   * Called whenever an acceptable result beats every result reported so far,
+   * so it can be shown while higher priority providers are still running. The winner is always reported.
+   */
+  onProgress?: (result: RaceResult) => void;
+  /** Called whenever a provider finished filling its source before the race was decided */
+  onSourceFilled?: (provider: LyricSourceKey) => void;
+}
+
+/**
+ * Starts every provider at once and resolves with the highest priority one that returns acceptable lyrics.
+ * A provider only wins once every provider ranked above it has settled without a usable result,
+ * after which the remaining requests are aborted.
+ * Cubey is always asked as well, since the providers that match by song info wait for its corrections of it.
+ *
+ * @param providerParameters - Shared parameters, the source map is filled and the song info corrected in place
+ * @param providers - Providers in priority order
+ * @param options - Acceptance check and progress callbacks
+ */
+export async function raceProviders(
+  providerParameters: ProviderParameters,
+  providers: readonly LyricSourceKey[],
+  options: RaceOptions = {}
+): Promise<RaceResult | null> {
+  const { accept = () => true, onProgress, onSourceFilled } = options;
+  let bestReportedIndex = Infinity;
+  let isFinished = false;
+  const raceController = new AbortController();
+  const raceParameters: ProviderParameters = {
+    ...providerParameters,
+    signal: AbortSignal.any([providerParameters.signal, raceController.signal]),
+  };
+  const metadataCorrection = correctSongMetadata(providerParameters, raceParameters.signal);
+
+  const outcomes = providers.map(async (provider, index) => {
+    let deadline: ReturnType<typeof setTimeout> | undefined;
+    try {
+      let parameters = raceParameters;
+      if (METADATA_DEPENDENT_PROVIDERS.includes(provider)) {
+        await metadataCorrection;
+        parameters = { ...providerParameters, signal: raceParameters.signal };
+      }
+      const fill = getLyrics(parameters, provider);
+      if (onSourceFilled) {
+        // Not bound by the deadline, a slow provider still shows up if it finishes before the race is decided
+        fill.then(
+          () => onSourceFilled(provider),
+          () => {}
+        );
+      }
+      const lyrics = await Promise.race([
+        fill,
+        new Promise<null>(resolve => {
+          deadline = setTimeout(() => {
+            Utils.log(`[BetterLyrics] ${provider} missed its ${PROVIDER_DEADLINE_MS}ms deadline`);
+            resolve(null);
+          }, PROVIDER_DEADLINE_MS);
+        }),
+      ]);
+      if (lyrics && lyrics.lyrics && lyrics.lyrics.length > 0 && (await accept(provider, lyrics))) {
+        if (onProgress && !isFinished && !providerParameters.signal.aborted && index < bestReportedIndex) {
+          bestReportedIndex = index;
+          onProgress({ provider, lyrics });
+        }
+        return lyrics;
+      }
+    } catch (err) {
+      if (!raceParameters.signal.aborted) {
+        Utils.log(err);
+      }
+    } finally {
+      clearTimeout(deadline);
+    }
+    return null;
+  });
+
+  try {
+    for (let i = 0; i < providers.length; i++) {
+      const lyrics = await outcomes[i];
+      if (providerParameters.signal.aborted) {
+        return null;
+      }
+      if (lyrics) {
+        return { provider: providers[i], lyrics };
+      }
+    }
+    return null;
+  } finally {
+    isFinished = true;
+    raceController.abort("Lyrics provider race finished");
+  }
+}
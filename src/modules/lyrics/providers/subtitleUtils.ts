@@ -0,0 +1,146 @@
+import { parseTime } from "./lrcUtils";
+import type { Lyric, LyricPart, LyricsArray } from "./shared";
+
+interface Cue {
+  startTimeMs: number;
+  endTimeMs: number;
+  text: string;
+}
+
+const cueTimingRegex = /^\s*((?:\d+:)?\d+:\d+[.,]\d+)\s*-->\s*((?:\d+:)?\d+:\d+[.,]\d+)/;
+const inlineTimestampRegex = /<((?:\d+:)?\d+:\d+\.\d+)>/;
+
+function parseCueTime(time: string): number {
+  return parseTime(time.replace(",", "."));
+}
+
+/**
+ * Splits subtitle text into cues. Blocks without a timing line (WebVTT header, NOTE, STYLE, REGION) are skipped,
+ * as are SRT/WebVTT cue identifiers and anything after the timing (cue settings).
+ */
+function parseCues(text: string): Cue[] {
+  const blocks = text
+    .replace(/^\uFEFF/, "")
+    .replace(/\r\n?/g, "\n")
+    .split(/\n{2,}/);
+
+  const cues: Cue[] = [];
+  blocks.forEach(block => {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex(line => cueTimingRegex.test(line));
+    if (timingIndex === -1) {
+      return;
+    }
+
+    const timing = lines[timingIndex].match(cueTimingRegex)!;
+    const cueText = lines
+      .slice(timingIndex + 1)
+      .map(line => line.trim())
+      .filter(line => line.length > 0)
+      .join(" ");
+
+    cues.push({
+      startTimeMs: parseCueTime(timing[1]),
+      endTimeMs: parseCueTime(timing[2]),
+      text: cueText,
+    });
+  });
+  return cues;
+}
+
+/**
+ * Removes formatting tags (`<c>`, `<i>`, `<v Name>`, `<font>`, `{\an8}`) and decodes the entities subtitles use.
+ */
+function stripFormatting(text: string): string {
+  return text
+    .replace(/<\/?[a-z][^>]*>/gi, "")
+    .replace(/\{\\[^}]*\}/g, "")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Turns a cue into a lyric line. Inline timestamps (`word <00:01.500>next`) become word timings,
+ * the text before the first timestamp starts with the cue.
+ */
+function cueToLyric(cue: Cue): Lyric {
+  const segments = cue.text.split(inlineTimestampRegex);
+  const words = stripFormatting(segments.filter((_, index) => index % 2 === 0).join(""))
+    .replace(/\s+/g, " ")
+    .trim();
+
+  const lyric: Lyric = {
+    startTimeMs: cue.startTimeMs,
+    words,
+    durationMs: Math.max(cue.endTimeMs - cue.startTimeMs, 0),
+  };
+
+  if (segments.length > 1) {
+    const parts: LyricPart[] = [];
+    let partStartMs = cue.startTimeMs;
+    segments.forEach((segment, index) => {
+      if (index % 2 === 1) {
+        partStartMs = parseTime(segment);
+        return;
+      }
+      const partWords = stripFormatting(segment).replace(/\s+/g, " ");
+      if (partWords.trim().length > 0) {
+        parts.push({ startTimeMs: partStartMs, words: partWords, durationMs: 0 });
+      }
+    });
+
+    parts.forEach((part, index) => {
+      const endTimeMs = index + 1 < parts.length ? parts[index + 1].startTimeMs : cue.endTimeMs;
+      part.durationMs = Math.max(endTimeMs - part.startTimeMs, 0);
+    });
+    if (parts.length > 0) {
+      parts[0].words = parts[0].words.trimStart();
+      parts[parts.length - 1].words = parts[parts.length - 1].words.trimEnd();
+      lyric.parts = parts;
+    }
+  }
+
+  return lyric;
+}
+
+/**
+ * Converts cues to lyrics sorted by start time. Overlapping cues stay separate lines,
+ * except when a cue only repeats the text of the one before it, in which case the two are merged.
+ */
+function cuesToLyrics(cues: Cue[]): LyricsArray {
+  const lyrics: LyricsArray = [];
+  cues
+    .map(cueToLyric)
+    .filter(lyric => lyric.words.length > 0)
+    .sort((a, b) => a.startTimeMs - b.startTimeMs)
+    .forEach(lyric => {
+      const previous = lyrics[lyrics.length - 1];
+      const previousEndMs = previous ? previous.startTimeMs + previous.durationMs : -1;
+      if (previous && previous.words === lyric.words && lyric.startTimeMs <= previousEndMs) {
+        previous.durationMs = Math.max(previousEndMs, lyric.startTimeMs + lyric.durationMs) - previous.startTimeMs;
+        return;
+      }
+      lyrics.push(lyric);
+    });
+  return lyrics;
+}
+
+/**
+ * Parses SubRip (.srt) subtitles into lyrics.
+ *
+ * @param srtText - SRT file contents
+ */
+export function parseSRT(srtText: string): LyricsArray {
+  return cuesToLyrics(parseCues(srtText));
+}
+
+/**
+ * Parses WebVTT subtitles into lyrics, including YouTube's `fmt=vtt` captions.
+ *
+ * @param vttText - WebVTT file contents
+ */
+export function parseWebVTT(vttText: string): LyricsArray {
+  return cuesToLyrics(parseCues(vttText));
+}
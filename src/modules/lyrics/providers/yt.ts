@@ -7,7 +7,7 @@ export type YTLyricSourceResult = LyricSourceResult & {
 };
 
 export default async function ytLyrics(providerParameters: ProviderParameters): Promise<void> {
-  let lyricsObj = await RequestSniffing.getLyrics(providerParameters.videoId);
+  let lyricsObj = await RequestSniffing.getLyrics(providerParameters.videoId, providerParameters.signal);
   if (lyricsObj.hasLyrics) {
     let lyricsText = lyricsObj.lyrics!;
     let sourceText = lyricsObj.sourceText!.substring(8) + " (via YT)";
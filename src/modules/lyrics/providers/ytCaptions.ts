@@ -1,66 +1,51 @@
 import type { LyricsArray, ProviderParameters } from "./shared";
 import * as Utils from "@utils";
 import * as Constants from "@constants";
+import { parseWebVTT } from "./subtitleUtils";
 
 export async function ytCaptions(providerParameters: ProviderParameters): Promise<void> {
-  let audioTrackData = providerParameters.audioTrackData;
-  if (audioTrackData.captionTracks.length === 0) {
+  let captionTracks = providerParameters.captionTracks;
+  if (captionTracks.length === 0) {
     return;
   }
 
   let langCode: string | null = null;
-  if (audioTrackData.captionTracks.length === 1) {
-    langCode = audioTrackData.captionTracks[0].languageCode;
+  if (captionTracks.length === 1) {
+    langCode = captionTracks[0].languageCode;
   } else {
-    // Try and determine the language by finding an auto generated track
-    // TODO: This sucks as a method
-    for (let captionTracksKey in audioTrackData.captionTracks) {
-      let data = audioTrackData.captionTracks[captionTracksKey];
-      if (data.displayName.includes("auto-generated")) {
-        langCode = data.languageCode;
-        break;
-      }
-    }
+    // Auto generated captions are transcribed in the language that is sung, so they tell which track to pick
+    let autoGeneratedTrack = captionTracks.find(track => track.isAutoGenerated);
+    let defaultTrack = captionTracks.find(track => track.isDefault);
+    langCode = autoGeneratedTrack?.languageCode ?? defaultTrack?.languageCode ?? null;
   }
 
   if (!langCode) {
-    Utils.log("Found Caption Tracks, but couldn't determine the default", audioTrackData);
+    Utils.log("Found Caption Tracks, but couldn't determine the default", captionTracks);
     providerParameters.sourceMap["yt-captions"].filled = true;
     providerParameters.sourceMap["yt-captions"].lyricSourceResult = null;
+    return;
   }
 
-  let captionsUrl: URL | null = null;
-  for (let captionTracksKey in audioTrackData.captionTracks) {
-    let data = audioTrackData.captionTracks[captionTracksKey];
-    if (!data.displayName.includes("auto-generated") && data.languageCode === langCode) {
-      captionsUrl = new URL(data.url);
-      break;
-    }
-  }
-
-  if (!captionsUrl) {
-    Utils.log("Only found auto generated lyrics for youtube captions, not using", audioTrackData);
+  let captionTrack = captionTracks.find(track => !track.isAutoGenerated && track.languageCode === langCode);
+  if (!captionTrack) {
+    Utils.log("Only found auto generated lyrics for youtube captions, not using", captionTracks);
     providerParameters.sourceMap["yt-captions"].filled = true;
     providerParameters.sourceMap["yt-captions"].lyricSourceResult = null;
     return;
   }
 
-  captionsUrl = new URL(captionsUrl);
-  captionsUrl.searchParams.set("fmt", "json3");
+  let captionsUrl = new URL(captionTrack.url, "https://music.youtube.com");
+  captionsUrl.searchParams.set("fmt", "vtt");
 
   let captionData = await fetch(captionsUrl.toString(), {
     method: "GET",
     signal: AbortSignal.any([providerParameters.signal, AbortSignal.timeout(10000)]),
-  }).then(response => response.json());
+  }).then(response => response.text());
 
-  let lyricsArray: LyricsArray = [];
+  let lyricsArray: LyricsArray = parseWebVTT(captionData);
 
-  captionData.events.forEach((event: { segs: { [x: string]: { utf8: string } }; tStartMs: any; dDurationMs: any }) => {
-    let words = "";
-    for (let segsKey in event.segs) {
-      words += event.segs[segsKey].utf8;
-    }
-    words = words.replace(/\n/g, " ");
+  lyricsArray.forEach(lyric => {
+    let words = lyric.words;
     for (let c of Constants.MUSIC_NOTES) {
       words = words.trim();
       if (words.startsWith(c)) {
@@ -70,12 +55,7 @@ export async function ytCaptions(providerParameters: ProviderParameters): Promis
         words = words.substring(0, words.length - 1);
       }
     }
-    words = words.trim();
-    lyricsArray.push({
-      startTimeMs: event.tStartMs,
-      words: words,
-      durationMs: event.dDurationMs,
-    });
+    lyric.words = words.trim();
   });
 
   let allCaps = lyricsArray.every(lyric => {
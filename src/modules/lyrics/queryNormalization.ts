@@ -0,0 +1,182 @@
+/**
+ * @fileoverview Cleans up song titles and artist names before they are sent to lyric providers.
+ * Everything here is pure and driven by the rule tables below, so new noise patterns only need a new entry.
+ */
+
+import { containsNonLatin } from "./lyricParseUtils";
+
+export interface QueryVariant {
+  song: string;
+  artist: string;
+}
+
+export interface NormalizedQuery {
+  /** The title and artist with all noise removed */
+  canonical: QueryVariant;
+  /** Alternative queries to retry with, most specific first, never containing the canonical query */
+  variants: QueryVariant[];
+}
+
+export interface NormalizationRule {
+  name: string;
+  field: keyof QueryVariant;
+  pattern: RegExp;
+  replacement: string;
+}
+
+/** Bracketed words that never belong to a song's actual title */
+const TITLE_NOISE_WORDS = [
+  "official\\s+(?:music\\s+|lyrics?\\s+|hd\\s+|4k\\s+)?(?:video|audio|visualizer|mv)",
+  "(?:music|lyrics?)\\s+video",
+  "visualizer",
+  "audio",
+  "mv",
+  "m/v",
+  "hd",
+  "hq",
+  "4k",
+  "explicit",
+  "clean",
+  "live",
+  "live\\s+(?:at|from|in|on)\\s+[^)\\]]+",
+  "(?:\\d{4}\\s+)?remaster(?:ed)?(?:\\s+\\d{4})?(?:\\s+version)?",
+].join("|");
+
+/**
+ * Rules applied in order to produce the canonical query.
+ */
+export const canonicalRules: NormalizationRule[] = [
+  {
+    name: "bracketed noise",
+    field: "song",
+    pattern: new RegExp(`\\s*[(\\[](?:${TITLE_NOISE_WORDS})[)\\]]`, "gi"),
+    replacement: "",
+  },
+  {
+    name: "dashed remaster",
+    field: "song",
+    pattern: /\s+-\s+(?:\d{4}\s+)?remaster(?:ed)?(?:\s+\d{4})?(?:\s+version)?\s*$/i,
+    replacement: "",
+  },
+  {
+    name: "dashed live",
+    field: "song",
+    pattern: /\s+-\s+live(?:\s+(?:at|from|in|on)\s+.+)?\s*$/i,
+    replacement: "",
+  },
+  {
+    name: "topic channel",
+    field: "artist",
+    pattern: /\s+-\s+topic\s*$/i,
+    replacement: "",
+  },
+  {
+    name: "ampersand list",
+    field: "artist",
+    pattern: /, & /g,
+    replacement: ", ",
+  },
+];
+
+/**
+ * Rules producing the "title without featured artists" variant.
+ */
+export const featuredArtistRules: NormalizationRule[] = [
+  {
+    name: "bracketed featuring",
+    field: "song",
+    pattern: /\s*[(\[](?:feat\.?|ft\.?|featuring|with)\s+[^)\]]+[)\]]/gi,
+    replacement: "",
+  },
+  {
+    name: "trailing featuring",
+    field: "song",
+    pattern: /\s+(?:feat\.?|ft\.?|featuring)\s+.+$/i,
+    replacement: "",
+  },
+  {
+    name: "artist featuring",
+    field: "artist",
+    pattern: /\s+(?:feat\.?|ft\.?|featuring)\s+.+$/i,
+    replacement: "",
+  },
+];
+
+/**
+ * Explicit separators between several credited artists, the first artist is the primary one.
+ * "&", "x" and unspaced slashes are left out since they're part of names like "Simon & Garfunkel", "Lil Nas X" or "AC/DC".
+ */
+export const artistSeparators: RegExp = /\s*(?:,|;|\s\/\s|\s(?:vs\.?|feat\.?|ft\.?|featuring)\s)\s*/i;
+
+function applyRules(query: QueryVariant, rules: NormalizationRule[]): QueryVariant {
+  const result = { ...query };
+  rules.forEach(rule => {
+    result[rule.field] = result[rule.field].replace(rule.pattern, rule.replacement);
+  });
+  return tidy(result);
+}
+
+function tidy(query: QueryVariant): QueryVariant {
+  return {
+    song: query.song.replace(/\s+/g, " ").trim(),
+    artist: query.artist.replace(/\s+/g, " ").trim(),
+  };
+}
+
+/**
+ * Splits titles like "夜に駆ける (Yoru ni Kakeru)" into their original and romanized script.
+ *
+ * @returns Both spellings, or an empty array if the title isn't written that way
+ */
+export function splitScriptVariants(song: string): string[] {
+  const match = song.match(/^(.+?)\s*[(\[]([^)\]]+)[)\]]\s*$/);
+  if (!match) {
+    return [];
+  }
+
+  const [, outside, inside] = match;
+  if (containsNonLatin(outside) === containsNonLatin(inside)) {
+    return [];
+  }
+  return [outside.trim(), inside.trim()];
+}
+
+/**
+ * Gets the first of several credited artists.
+ */
+export function getPrimaryArtist(artist: string): string {
+  return artist.split(artistSeparators)[0].trim() || artist;
+}
+
+/**
+ * Normalizes a title and artist into a canonical query plus alternatives to retry with on a miss.
+ *
+ * @param song - Title as shown by YouTube Music
+ * @param artist - Artist as shown by YouTube Music
+ */
+export function normalizeQuery(song: string, artist: string): NormalizedQuery {
+  const canonical = applyRules({ song, artist }, canonicalRules);
+  const withoutFeatures = applyRules(canonical, featuredArtistRules);
+  const primaryArtist = getPrimaryArtist(withoutFeatures.artist);
+
+  const candidates: QueryVariant[] = [
+    withoutFeatures,
+    { song: withoutFeatures.song, artist: primaryArtist },
+    ...splitScriptVariants(withoutFeatures.song).flatMap(scriptSong => [
+      { song: scriptSong, artist: withoutFeatures.artist },
+      { song: scriptSong, artist: primaryArtist },
+    ]),
+  ];
+
+  const seen = new Set([`${canonical.song}\n${canonical.artist}`.toLowerCase()]);
+  const variants = candidates.filter(variant => {
+    const key = `${variant.song}\n${variant.artist}`.toLowerCase();
+    if (!variant.song || !variant.artist || seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+
+  return { canonical, variants };
+}
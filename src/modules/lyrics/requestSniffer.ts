@@ -1,4 +1,7 @@
+import { createAwaitableRegistry } from "@core/awaitableRegistry";
 import * as Utils from "@utils";
+import * as PlayQueue from "./playQueue";
+import { browseExtractors, extract, nextExtractors, playerExtractors, queueItemExtractors } from "./responseExtractors";
 
 interface Segment {
   primaryVideoStartTimeMilliseconds: number;
@@ -17,98 +20,177 @@ export interface LyricsInfo {
   sourceText: string | null;
 }
 
+/** What kind of video YouTube Music plays: audio track, official music video or user uploaded video */
+export type MusicVideoType = "ATV" | "OMV" | "UGC" | "OFFICIAL_SOURCE_MUSIC" | "PODCAST_EPISODE";
+
+export interface CaptionTrack {
+  url: string;
+  languageCode: string;
+  name: string;
+  isAutoGenerated: boolean;
+  isDefault: boolean;
+}
+
+export interface Thumbnail {
+  url: string;
+  width: number;
+  height: number;
+}
+
+/** Details of a video from its /player response */
+export interface PlayerInfo {
+  musicVideoType: MusicVideoType | null;
+  captionTracks: CaptionTrack[];
+  publishYear: number | null;
+  thumbnails: Thumbnail[];
+  /** Video length in seconds */
+  duration: number;
+}
+
 interface CounterpartInfo {
   counterpartVideoId: string | null;
   segmentMap: SegmentMap | null;
 }
 
 const browseIdToVideoIdMap = new Map<string, string>();
-const videoIdToLyricsMap = new Map<string, LyricsInfo>();
-const counterpartVideoIdMap = new Map<string, CounterpartInfo>();
-const videoIdToAlbumMap = new Map<string, string | null>();
+const videoIdToLyricsMap = createAwaitableRegistry<string, LyricsInfo>();
+const counterpartVideoIdMap = createAwaitableRegistry<string, CounterpartInfo>();
+const videoIdToAlbumMap = createAwaitableRegistry<string, string | null | undefined>();
+const videoIdToPlayerInfoMap = createAwaitableRegistry<string, PlayerInfo>();
 
 let firstRequestMissedVideoId: string | null = null;
 
-function delay(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+/** How long lookups wait for YouTube Music to send the data before giving up */
+const SNIFF_TIMEOUT_MS = 5000;
+
+/**
+ * Waits for the lyrics YouTube Music sends for a song, or for its audio/video counterpart.
+ *
+ * @param videoId - Song to get the lyrics of
+ * @param signal - Stops waiting, the song is then treated as having no lyrics
+ * @param timeoutMs - How long to wait for the lyrics
+ */
+export async function getLyrics(
+  videoId: string,
+  signal?: AbortSignal,
+  timeoutMs = SNIFF_TIMEOUT_MS
+): Promise<LyricsInfo> {
+  // Settling either lookup stops the other one
+  const lookupController = new AbortController();
+  const lookupSignal = signal ? AbortSignal.any([signal, lookupController.signal]) : lookupController.signal;
+  const waitOptions = { signal: lookupSignal, timeoutMs };
+
+  const counterpartLyrics = counterpartVideoIdMap.waitFor(videoId, waitOptions).then(counterpart => {
+    // Without a counterpart this lookup can only time out, which the own lyrics lookup does as well
+    const lyricsVideoId = counterpart?.counterpartVideoId ?? videoId;
+    return videoIdToLyricsMap.waitFor(lyricsVideoId, waitOptions);
+  });
+  const lyrics = await Promise.race([videoIdToLyricsMap.waitFor(videoId, waitOptions), counterpartLyrics]);
+  lookupController.abort();
+
+  if (!lyrics) {
+    Utils.log("Failed to sniff lyrics");
+    return { hasLyrics: false, lyrics: "", sourceText: "" };
+  }
+  return lyrics;
 }
 
 /**
+ * Waits for the audio/video counterpart of a song and the segment map between the two.
  *
- * @param videoId
- * @param maxRetries
- * @return
+ * @param videoId - Song to find the counterpart of
+ * @param signal - Stops waiting
+ * @param timeoutMs - How long to wait, 0 only looks at what was already sniffed
+ * @return The counterpart info, or null if none came in time
  */
-export async function getLyrics(videoId: string, maxRetries = 250): Promise<LyricsInfo> {
-  if (videoIdToLyricsMap.has(videoId)) {
-    return videoIdToLyricsMap.get(videoId)!;
-  } else {
-    let checkCount = 0;
-    return await new Promise(resolve => {
-      const checkInterval = setInterval(() => {
-        if (videoIdToLyricsMap.has(videoId)) {
-          clearInterval(checkInterval);
-          resolve(videoIdToLyricsMap.get(videoId)!);
-        }
-        if (counterpartVideoIdMap.get(videoId)) {
-          let counterpart = counterpartVideoIdMap.get(videoId)!.counterpartVideoId;
-          if (counterpart && videoIdToLyricsMap.has(counterpart)!) {
-            clearInterval(checkInterval);
-            resolve(videoIdToLyricsMap.get(counterpart)!);
-          }
-        }
-        if (checkCount > maxRetries) {
-          clearInterval(checkInterval);
-          Utils.log("Failed to sniff lyrics");
-          resolve({ hasLyrics: false, lyrics: "", sourceText: "" });
-        }
-        checkCount += 1;
-      }, 20);
-    });
+export async function getMatchingSong(
+  videoId: string,
+  signal?: AbortSignal,
+  timeoutMs = SNIFF_TIMEOUT_MS
+): Promise<CounterpartInfo | null> {
+  const counterpart = await counterpartVideoIdMap.waitFor(videoId, { signal, timeoutMs });
+  if (!counterpart) {
+    if (timeoutMs > 0) {
+      Utils.log("Failed to find Segment Map for video");
+    }
+    return null;
   }
+  return counterpart;
 }
 
 /**
+ * Waits for the album of a song.
  *
- * @param videoId
- * @param maxCheckCount
- * @return
+ * @param videoId - Song to find the album of
+ * @param signal - Stops waiting
+ * @return The album, or null/undefined if the song has none or it didn't come in time
  */
-export async function getMatchingSong(videoId: string, maxCheckCount = 250): Promise<CounterpartInfo | null> {
-  if (counterpartVideoIdMap.has(videoId)) {
-    return counterpartVideoIdMap.get(videoId)!;
-  } else {
-    let checkCount = 0;
-    return await new Promise(resolve => {
-      const checkInterval = setInterval(() => {
-        if (counterpartVideoIdMap.has(videoId)) {
-          let counterpart = counterpartVideoIdMap.get(videoId);
-          clearInterval(checkInterval);
-          resolve(counterpart!);
-        }
-        if (checkCount > maxCheckCount) {
-          clearInterval(checkInterval);
-          Utils.log("Failed to find Segment Map for video");
-          resolve(null);
-        }
-        checkCount += 1;
-      }, 20);
-    });
+export async function getSongAlbum(videoId: string, signal?: AbortSignal): Promise<string | null | undefined> {
+  if (!videoIdToAlbumMap.has(videoId)) {
+    await videoIdToAlbumMap.waitFor(videoId, { signal, timeoutMs: SNIFF_TIMEOUT_MS });
   }
+  if (!videoIdToAlbumMap.has(videoId)) {
+    Utils.log("Song album information didn't come in time for: ", videoId);
+  }
+  return videoIdToAlbumMap.get(videoId);
 }
 
 /**
- * @param videoId
- * @return
+ * Waits for the details of a video from its /player response.
+ *
+ * @param videoId - Video to get the details of
+ * @param signal - Stops waiting
+ * @param timeoutMs - How long to wait, 0 only looks at what was already sniffed
+ * @return The details, or null if they didn't come in time
  */
-export async function getSongAlbum(videoId: string): Promise<string | null | undefined> {
-  for (let i = 0; i < 250; i++) {
-    if (videoIdToAlbumMap.has(videoId)) {
-      return videoIdToAlbumMap.get(videoId);
+export async function getPlayerInfo(
+  videoId: string,
+  signal?: AbortSignal,
+  timeoutMs = SNIFF_TIMEOUT_MS
+): Promise<PlayerInfo | null> {
+  return (await videoIdToPlayerInfoMap.waitFor(videoId, { signal, timeoutMs })) ?? null;
+}
+
+function parsePlayerInfo(responseJson: any): PlayerInfo {
+  const videoDetails = responseJson.videoDetails;
+  const captions = extract(responseJson, playerExtractors.captions);
+  const defaultCaptionIndex = captions?.audioTracks?.[captions.defaultAudioTrackIndex ?? 0]?.defaultCaptionTrackIndex;
+
+  const captionTracks: CaptionTrack[] = (captions?.captionTracks ?? []).map((track: any, index: number) => ({
+    url: track.baseUrl,
+    languageCode: track.languageCode,
+    name: track.name?.simpleText ?? track.name?.runs?.map((run: any) => run.text).join("") ?? track.languageCode,
+    isAutoGenerated: track.kind === "asr",
+    isDefault: index === defaultCaptionIndex,
+  }));
+
+  const publishYear = parseInt(extract<string>(responseJson, playerExtractors.publishDate) ?? "", 10);
+  const musicVideoType = extract<string>(responseJson, playerExtractors.musicVideoType)?.replace(
+    "MUSIC_VIDEO_TYPE_",
+    ""
+  );
+
+  return {
+    musicVideoType: (musicVideoType as MusicVideoType | undefined) || null,
+    captionTracks: captionTracks.filter(track => track.url && track.languageCode),
+    publishYear: Number.isNaN(publishYear) ? null : publishYear,
+    thumbnails: videoDetails?.thumbnail?.thumbnails ?? [],
+    duration: Number(videoDetails?.lengthSeconds) || 0,
+  };
+}
+
+/**
+ * Lets prefetched songs look up their album right away instead of waiting for their own /next request.
+ */
+function storeQueueAlbums(queue: readonly PlayQueue.QueueItem[]): void {
+  for (const item of queue) {
+    if (item.album && !videoIdToAlbumMap.has(item.videoId)) {
+      videoIdToAlbumMap.set(item.videoId, item.album);
+      if (item.counterpartVideoId && !videoIdToAlbumMap.has(item.counterpartVideoId)) {
+        videoIdToAlbumMap.set(item.counterpartVideoId, item.album);
+      }
     }
-    await delay(20);
   }
-  Utils.log("Song album information didn't come in time for: ", videoId);
 }
 
 export function setupRequestSniffer(): void {
@@ -121,26 +203,26 @@ export function setupRequestSniffer(): void {
     if (!(event instanceof CustomEvent)) return;
     let { /** @type string */ url, requestJson, responseJson } = event.detail;
     if (url.includes("https://music.youtube.com/youtubei/v1/next")) {
-      let playlistPanelRendererContents =
-        responseJson.contents?.singleColumnMusicWatchNextResultsRenderer?.tabbedRenderer?.watchNextTabbedResultsRenderer
-          ?.tabs?.[0]?.tabRenderer?.content?.musicQueueRenderer?.content?.playlistPanelRenderer?.contents;
+      let playlistPanelRendererContents = extract<any[]>(responseJson, nextExtractors.queueContents);
+      let isQueueExtension = false;
       if (!playlistPanelRendererContents) {
-        playlistPanelRendererContents =
-          responseJson.onResponseReceivedEndpoints?.[0]?.queueUpdateCommand?.inlineContents?.playlistPanelRenderer
-            ?.contents;
+        let queueUpdateCommand = extract(responseJson, nextExtractors.queueUpdateCommand);
+        if (queueUpdateCommand) {
+          playlistPanelRendererContents = extract<any[]>(queueUpdateCommand, nextExtractors.queueUpdateContents);
+          // Queue updates deduped against the local queue add to it (autoplay, radio) rather than replace it
+          isQueueExtension = queueUpdateCommand.dedupeAgainstLocalQueue === true;
+        }
       }
 
       if (playlistPanelRendererContents) {
         for (let playlistPanelRendererContent of playlistPanelRendererContents) {
-          let counterpartId =
-            playlistPanelRendererContent?.playlistPanelVideoWrapperRenderer?.counterpart?.[0]?.counterpartRenderer
-              ?.playlistPanelVideoRenderer?.videoId;
-          let primaryId =
-            playlistPanelRendererContent?.playlistPanelVideoWrapperRenderer?.primaryRenderer?.playlistPanelVideoRenderer
-              ?.videoId;
+          let counterpartId = extract<string>(playlistPanelRendererContent, queueItemExtractors.counterpartVideoId);
+          let primaryId = extract<string>(playlistPanelRendererContent, queueItemExtractors.primaryVideoId);
 
-          let segmentMap: SegmentMap =
-            playlistPanelRendererContent?.playlistPanelVideoWrapperRenderer?.counterpart?.[0]?.segmentMap;
+          let segmentMap: SegmentMap | null = null;
+          if (counterpartId && primaryId) {
+            segmentMap = extract<SegmentMap>(playlistPanelRendererContent, queueItemExtractors.segmentMap) ?? null;
+          }
 
           if (counterpartId && primaryId) {
             /**
@@ -170,27 +252,26 @@ export function setupRequestSniffer(): void {
               segmentMap: reversedSegmentMap,
             });
           } else {
-            let primaryId = playlistPanelRendererContent?.playlistPanelVideoRenderer?.videoId;
+            let primaryId = extract<string>(playlistPanelRendererContent, queueItemExtractors.videoId);
             if (primaryId) {
               counterpartVideoIdMap.set(primaryId, { counterpartVideoId: null, segmentMap: null });
             }
           }
         }
+        storeQueueAlbums(PlayQueue.updateQueue(playlistPanelRendererContents, isQueueExtension));
       }
 
       let videoId = requestJson.videoId;
       let playlistId = requestJson.playlistId;
 
       if (!videoId) {
-        videoId = responseJson.currentVideoEndpoint?.watchEndpoint?.videoId;
+        videoId = extract<string>(responseJson, nextExtractors.videoId);
       }
       if (!playlistId) {
-        playlistId = responseJson.currentVideoEndpoint?.watchEndpoint?.playlistId;
+        playlistId = extract<string>(responseJson, nextExtractors.playlistId);
       }
 
-      let album =
-        responseJson?.playerOverlays?.playerOverlayRenderer?.browserMediaSession?.browserMediaSessionRenderer?.album
-          ?.runs[0]?.text;
+      let album = extract<string>(responseJson, nextExtractors.album);
 
       videoIdToAlbumMap.set(videoId, album);
       if (counterpartVideoIdMap.has(videoId)) {
@@ -204,17 +285,20 @@ export function setupRequestSniffer(): void {
         return;
       }
 
-      let lyricsTab =
-        responseJson.contents?.singleColumnMusicWatchNextResultsRenderer?.tabbedRenderer?.watchNextTabbedResultsRenderer
-          ?.tabs[1]?.tabRenderer;
+      let lyricsTab = extract(responseJson, nextExtractors.lyricsTab);
       if (lyricsTab && lyricsTab.unselectable) {
         videoIdToLyricsMap.set(videoId, { hasLyrics: false, lyrics: "", sourceText: "" });
-      } else {
-        let browseId = lyricsTab.endpoint?.browseEndpoint?.browseId;
+      } else if (lyricsTab) {
+        let browseId = extract<string>(lyricsTab, nextExtractors.lyricsBrowseId);
         if (browseId) {
           browseIdToVideoIdMap.set(browseId, videoId);
         }
       }
+    } else if (url.includes("https://music.youtube.com/youtubei/v1/player")) {
+      let videoId = extract(responseJson, playerExtractors.videoDetails)?.videoId ?? requestJson.videoId;
+      if (videoId) {
+        videoIdToPlayerInfoMap.set(videoId, parsePlayerInfo(responseJson));
+      }
     } else if (url.includes("https://music.youtube.com/youtubei/v1/browse")) {
       let browseId = requestJson.browseId;
       let videoId = browseIdToVideoIdMap.get(browseId);
@@ -225,12 +309,8 @@ export function setupRequestSniffer(): void {
       }
 
       if (videoId !== undefined) {
-        let lyrics =
-          responseJson.contents?.sectionListRenderer?.contents?.[0]?.musicDescriptionShelfRenderer?.description
-            ?.runs?.[0]?.text;
-        let sourceText =
-          responseJson.contents?.sectionListRenderer?.contents?.[0]?.musicDescriptionShelfRenderer?.footer?.runs?.[0]
-            ?.text;
+        let lyrics = extract<string>(responseJson, browseExtractors.lyrics);
+        let sourceText = extract<string>(responseJson, browseExtractors.lyricsSource);
         if (lyrics && sourceText) {
           videoIdToLyricsMap.set(videoId, { hasLyrics: true, lyrics, sourceText });
           if (videoId === firstRequestMissedVideoId) {
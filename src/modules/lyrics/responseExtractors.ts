@@ -0,0 +1,229 @@
+/**
+ * @fileoverview Declarative extractors for the fields the request sniffer reads from YouTube Music responses.
+ * Every field lists several paths, the current format first and alternative shapes after it,
+ * so a reshaped response falls back instead of breaking, and every read feeds the sniffer self-check.
+ */
+
+import * as SnifferHealth from "./snifferHealth";
+
+/** Consecutive misses after which a field's format is reported as changed */
+const DEFAULT_MISS_THRESHOLD = 5;
+
+export interface FieldExtractor {
+  /** Name shown in diagnostics */
+  field: string;
+  /**
+   * Dot separated paths into the response, tried in order. Numeric segments index arrays,
+   * `*` matches any key or element, which tolerates renamed wrappers and moved tabs.
+   */
+  paths: string[];
+  /** Whether the response should carry the field, reads of responses that may lack it are left out of the self-check */
+  isExpected?: (json: any) => boolean;
+  /** Consecutive misses before the format counts as changed, null for fields that are often missing anyway */
+  missThreshold?: number | null;
+  /** Rejects values of the wrong shape, so a path that now leads somewhere else counts as a miss */
+  isValid?: (value: any) => boolean;
+}
+
+const isString = (value: any) => typeof value === "string" && value.length > 0;
+const isArray = (value: any) => Array.isArray(value);
+const isObject = (value: any) => typeof value === "object" && value !== null;
+const isWatchNextPage = (json: any) => json?.contents !== undefined;
+const isWrappedQueueItem = (item: any) => item?.playlistPanelVideoWrapperRenderer !== undefined;
+
+const watchNextTabs =
+  "contents.singleColumnMusicWatchNextResultsRenderer.tabbedRenderer.watchNextTabbedResultsRenderer.tabs";
+
+/** Fields of /next responses */
+export const nextExtractors = {
+  queueContents: {
+    field: "next.queueContents",
+    paths: [
+      `${watchNextTabs}.0.tabRenderer.content.musicQueueRenderer.content.playlistPanelRenderer.contents`,
+      "contents.*.tabbedRenderer.*.tabs.*.tabRenderer.content.musicQueueRenderer.content.playlistPanelRenderer.contents",
+    ],
+    isExpected: isWatchNextPage,
+    isValid: isArray,
+  },
+  queueUpdateCommand: {
+    field: "next.queueUpdateCommand",
+    paths: ["onResponseReceivedEndpoints.0.queueUpdateCommand", "onResponseReceivedEndpoints.*.queueUpdateCommand"],
+    isExpected: () => false,
+    isValid: isObject,
+  },
+  queueUpdateContents: {
+    field: "next.queueUpdateContents",
+    paths: ["inlineContents.playlistPanelRenderer.contents", "*.playlistPanelRenderer.contents"],
+    isValid: isArray,
+  },
+  videoId: {
+    field: "next.videoId",
+    paths: ["currentVideoEndpoint.watchEndpoint.videoId", "currentVideoEndpoint.*.videoId"],
+    isExpected: isWatchNextPage,
+    isValid: isString,
+  },
+  playlistId: {
+    field: "next.playlistId",
+    paths: ["currentVideoEndpoint.watchEndpoint.playlistId", "currentVideoEndpoint.*.playlistId"],
+    isExpected: isWatchNextPage,
+    missThreshold: null,
+    isValid: isString,
+  },
+  album: {
+    field: "next.album",
+    paths: [
+      "playerOverlays.playerOverlayRenderer.browserMediaSession.browserMediaSessionRenderer.album.runs.0.text",
+      "playerOverlays.*.browserMediaSession.*.album.runs.0.text",
+    ],
+    isExpected: isWatchNextPage,
+    // Uploads and some videos have no album
+    missThreshold: 25,
+    isValid: isString,
+  },
+  lyricsTab: {
+    field: "next.lyricsTab",
+    paths: [`${watchNextTabs}.1.tabRenderer`, "contents.*.tabbedRenderer.*.tabs.1.tabRenderer"],
+    isExpected: isWatchNextPage,
+    isValid: isObject,
+  },
+  lyricsBrowseId: {
+    field: "next.lyricsBrowseId",
+    paths: ["endpoint.browseEndpoint.browseId", "endpoint.*.browseId"],
+    isExpected: (tab: any) => !tab?.unselectable,
+    isValid: isString,
+  },
+} satisfies Record<string, FieldExtractor>;
+
+/** Fields of the entries of a queue panel */
+export const queueItemExtractors = {
+  primaryVideoId: {
+    field: "queue.primaryVideoId",
+    paths: [
+      "playlistPanelVideoWrapperRenderer.primaryRenderer.playlistPanelVideoRenderer.videoId",
+      "playlistPanelVideoWrapperRenderer.primaryRenderer.*.videoId",
+    ],
+    isExpected: isWrappedQueueItem,
+    isValid: isString,
+  },
+  counterpartVideoId: {
+    field: "queue.counterpartVideoId",
+    paths: [
+      "playlistPanelVideoWrapperRenderer.counterpart.0.counterpartRenderer.playlistPanelVideoRenderer.videoId",
+      "playlistPanelVideoWrapperRenderer.counterpart.*.counterpartRenderer.*.videoId",
+    ],
+    isExpected: isWrappedQueueItem,
+    isValid: isString,
+  },
+  segmentMap: {
+    field: "queue.segmentMap",
+    paths: ["playlistPanelVideoWrapperRenderer.counterpart.0.segmentMap"],
+    isExpected: isWrappedQueueItem,
+    // Counterparts without a matching timeline come without one
+    missThreshold: 25,
+    isValid: (value: any) => isArray(value?.segment),
+  },
+  videoId: {
+    field: "queue.videoId",
+    paths: ["playlistPanelVideoRenderer.videoId"],
+    isExpected: (item: any) => item?.playlistPanelVideoRenderer !== undefined,
+    isValid: isString,
+  },
+} satisfies Record<string, FieldExtractor>;
+
+const lyricsShelf = "contents.sectionListRenderer.contents.0.musicDescriptionShelfRenderer";
+
+/** Fields of /browse responses for a lyrics page */
+export const browseExtractors = {
+  lyrics: {
+    field: "browse.lyrics",
+    paths: [
+      `${lyricsShelf}.description.runs.0.text`,
+      "contents.*.contents.*.musicDescriptionShelfRenderer.description.runs.0.text",
+    ],
+    // Songs without lyrics get a message instead
+    missThreshold: 25,
+    isValid: isString,
+  },
+  lyricsSource: {
+    field: "browse.lyricsSource",
+    paths: [
+      `${lyricsShelf}.footer.runs.0.text`,
+      "contents.*.contents.*.musicDescriptionShelfRenderer.footer.runs.0.text",
+    ],
+    missThreshold: 25,
+    isValid: isString,
+  },
+} satisfies Record<string, FieldExtractor>;
+
+/** Fields of /player responses */
+export const playerExtractors = {
+  videoDetails: {
+    field: "player.videoDetails",
+    paths: ["videoDetails"],
+    isValid: (value: any) => isString(value?.videoId),
+  },
+  musicVideoType: {
+    field: "player.musicVideoType",
+    paths: ["videoDetails.musicVideoType"],
+    isValid: isString,
+  },
+  captions: {
+    field: "player.captions",
+    paths: ["captions.playerCaptionsTracklistRenderer", "captions.*"],
+    // Most songs have no captions
+    missThreshold: null,
+    isValid: (value: any) => isArray(value?.captionTracks),
+  },
+  publishDate: {
+    field: "player.publishDate",
+    paths: ["microformat.microformatDataRenderer.publishDate", "microformat.microformatDataRenderer.uploadDate"],
+    missThreshold: 25,
+    isValid: isString,
+  },
+} satisfies Record<string, FieldExtractor>;
+
+function readPath(value: any, segments: string[], accept: (value: any) => boolean): any {
+  if (segments.length === 0) {
+    return accept(value) ? value : undefined;
+  }
+  if (typeof value !== "object" || value === null) {
+    return undefined;
+  }
+
+  const [segment, ...rest] = segments;
+  if (segment !== "*") {
+    return readPath(value[segment], rest, accept);
+  }
+  for (const child of Object.values(value)) {
+    const found = readPath(child, rest, accept);
+    if (found !== undefined) {
+      return found;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Reads a field through the first of its paths that leads to a valid value, and records the outcome for the self-check.
+ *
+ * @param json - Response, or part of it, to read from
+ * @param extractor - Field to read
+ * @returns The value, or undefined if none of the paths has it
+ */
+export function extract<T = any>(json: any, extractor: FieldExtractor): T | undefined {
+  const accept = (value: any) =>
+    value !== undefined && value !== null && (!extractor.isValid || extractor.isValid(value));
+  for (const [index, path] of extractor.paths.entries()) {
+    const value = readPath(json, path.split("."), accept);
+    if (value !== undefined) {
+      SnifferHealth.recordHit(extractor.field, index > 0);
+      return value;
+    }
+  }
+
+  if (!extractor.isExpected || extractor.isExpected(json)) {
+    const threshold = extractor.missThreshold === undefined ? DEFAULT_MISS_THRESHOLD : extractor.missThreshold;
+    SnifferHealth.recordMiss(extractor.field, threshold);
+  }
+  return undefined;
+}
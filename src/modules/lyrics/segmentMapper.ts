@@ -0,0 +1,130 @@
+/**
+ * @fileoverview Maps lyric times between a song and its music video through the segment map
+ * YouTube Music sends with the queue. Every segment pairs a stretch of the counterpart with the
+ * same stretch of the primary video, anything outside of them (intros, skits, outros, cut verses)
+ * has no counterpart on the other side.
+ */
+
+import type { SegmentMap } from "./requestSniffer";
+
+/** Stretch of a video in seconds */
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+export interface SegmentMapper {
+  /**
+   * Maps a time of the counterpart onto the primary video.
+   * @returns The mapped time, or null if no segment covers it
+   */
+  mapTime(time: number): number | null;
+  /**
+   * Maps the start and end of a range independently, so a range crossing a segment boundary keeps both ends in place.
+   * An end that isn't covered is clamped to the segment of the other end.
+   * @returns The mapped range, or null if the range has no counterpart at all
+   */
+  mapRange(start: number, end: number): TimeRange | null;
+  /**
+   * Shift of the last segment that starts before a time, for placing times that can't be mapped.
+   */
+  fallbackOffset(time: number): number;
+  /** Stretches of the primary video that no segment leads to, in order */
+  uncoveredRegions: TimeRange[];
+}
+
+interface MappedSegment {
+  start: number;
+  end: number;
+  targetStart: number;
+  targetEnd: number;
+}
+
+/** Gaps shorter than this are rounding between adjacent segments rather than video without a counterpart */
+const MIN_UNCOVERED_REGION_S = 0.25;
+
+function findUncoveredRegions(segments: MappedSegment[]): TimeRange[] {
+  const byTarget = [...segments].sort((a, b) => a.targetStart - b.targetStart);
+  const regions: TimeRange[] = [];
+  let coveredUntil = 0;
+  for (const segment of byTarget) {
+    if (segment.targetStart - coveredUntil >= MIN_UNCOVERED_REGION_S) {
+      regions.push({ start: coveredUntil, end: segment.targetStart });
+    }
+    coveredUntil = Math.max(coveredUntil, segment.targetEnd);
+  }
+  if (byTarget.length > 0) {
+    // Outro
+    regions.push({ start: coveredUntil, end: Infinity });
+  }
+  return regions;
+}
+
+/**
+ * Builds a piecewise time mapping from a segment map.
+ *
+ * @param segmentMap - Segment map of the video the lyrics are mapped onto
+ */
+export function createSegmentMapper(segmentMap: SegmentMap): SegmentMapper {
+  const segments: MappedSegment[] = segmentMap.segment
+    .filter(segment => segment.durationMilliseconds > 0)
+    .map(segment => ({
+      start: segment.counterpartVideoStartTimeMilliseconds / 1000,
+      end: (segment.counterpartVideoStartTimeMilliseconds + segment.durationMilliseconds) / 1000,
+      targetStart: segment.primaryVideoStartTimeMilliseconds / 1000,
+      targetEnd: (segment.primaryVideoStartTimeMilliseconds + segment.durationMilliseconds) / 1000,
+    }))
+    .sort((a, b) => a.start - b.start);
+
+  // Ends belong to the segment they close and starts to the one they open, which matters where segments touch
+  const findSegmentStarting = (time: number) => segments.find(segment => segment.start <= time && time < segment.end);
+  const findSegmentEnding = (time: number) => segments.find(segment => segment.start < time && time <= segment.end);
+  const toTarget = (segment: MappedSegment, time: number) => segment.targetStart + (time - segment.start);
+
+  const mapTime = (time: number): number | null => {
+    const segment = findSegmentStarting(time) ?? findSegmentEnding(time);
+    return segment ? toTarget(segment, time) : null;
+  };
+
+  return {
+    mapTime,
+    mapRange(start, end) {
+      if (end <= start) {
+        const mapped = mapTime(start);
+        return mapped === null ? null : { start: mapped, end: mapped };
+      }
+
+      const startSegment = findSegmentStarting(start);
+      const endSegment = findSegmentEnding(end);
+      if (startSegment && endSegment) {
+        const mappedStart = toTarget(startSegment, start);
+        const mappedEnd = toTarget(endSegment, end);
+        // Segments played out of order in the video, keep the part of the range the start segment has
+        if (mappedEnd < mappedStart) {
+          return { start: mappedStart, end: toTarget(startSegment, Math.min(end, startSegment.end)) };
+        }
+        return { start: mappedStart, end: mappedEnd };
+      }
+      if (startSegment) {
+        return { start: toTarget(startSegment, start), end: startSegment.targetEnd };
+      }
+      if (endSegment) {
+        return { start: endSegment.targetStart, end: toTarget(endSegment, end) };
+      }
+
+      const innerSegment = segments.find(segment => start <= segment.start && segment.end <= end);
+      return innerSegment ? { start: innerSegment.targetStart, end: innerSegment.targetEnd } : null;
+    },
+    fallbackOffset(time) {
+      let offset = 0;
+      for (const segment of segments) {
+        if (segment.start > time) {
+          break;
+        }
+        offset = segment.targetStart - segment.start;
+      }
+      return offset;
+    },
+    uncoveredRegions: findUncoveredRegions(segments),
+  };
+}
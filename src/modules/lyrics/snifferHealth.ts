@@ -0,0 +1,129 @@
+/**
+ * @fileoverview Self-check of the request sniffer. Counts how often each field could be read from
+ * YouTube Music responses, so a field that suddenly stops showing up is reported as a format change
+ * in the options diagnostics instead of silently breaking album, counterpart or lyrics detection.
+ * The DOM locator reports the page elements it hooks into the same way, as fields named after {@link Constants.DOM_FIELD_PREFIX}.
+ */
+
+import * as Constants from "@constants";
+import * as Utils from "@utils";
+
+export interface SnifferFieldRecord {
+  hits: number;
+  misses: number;
+  /** Hits that only a fallback path found, which hints at the primary path going stale */
+  fallbackHits: number;
+  consecutiveMisses: number;
+  lastHitAt: number | null;
+  lastMissAt: number | null;
+  /** Set once the field missed often enough in a row that the response format likely changed */
+  formatChanged: boolean;
+}
+
+export type SnifferHealthMap = Record<string, SnifferFieldRecord>;
+
+/** Misses are batched since every response reads several fields */
+const SAVE_DELAY_MS = 5000;
+
+let healthPromise: Promise<SnifferHealthMap> | null = null;
+let saveTimeout: ReturnType<typeof setTimeout> | null = null;
+
+function newRecord(): SnifferFieldRecord {
+  return {
+    hits: 0,
+    misses: 0,
+    fallbackHits: 0,
+    consecutiveMisses: 0,
+    lastHitAt: null,
+    lastMissAt: null,
+    formatChanged: false,
+  };
+}
+
+function loadHealth(): Promise<SnifferHealthMap> {
+  if (!healthPromise) {
+    healthPromise = chrome.storage.local
+      .get(Constants.SNIFFER_HEALTH_KEY)
+      .then(result => (result[Constants.SNIFFER_HEALTH_KEY] as SnifferHealthMap) || {})
+      .catch(err => {
+        Utils.log("[BetterLyrics] Failed to load sniffer health", err);
+        return {};
+      });
+  }
+  return healthPromise;
+}
+
+function scheduleSave(): void {
+  if (saveTimeout) {
+    return;
+  }
+  saveTimeout = setTimeout(async () => {
+    saveTimeout = null;
+    try {
+      await chrome.storage.local.set({ [Constants.SNIFFER_HEALTH_KEY]: await loadHealth() });
+    } catch (err) {
+      Utils.log("[BetterLyrics] Failed to save sniffer health", err);
+    }
+  }, SAVE_DELAY_MS);
+}
+
+/**
+ * @param update - Changes the record, returns false if the change alone isn't worth a save
+ */
+async function updateRecord(field: string, update: (record: SnifferFieldRecord) => boolean): Promise<void> {
+  const health = await loadHealth();
+  const isNew = !health[field];
+  const record = { ...newRecord(), ...health[field] };
+  const needsSave = update(record);
+  health[field] = record;
+  if (needsSave || isNew) {
+    scheduleSave();
+  }
+}
+
+/**
+ * Records that a field was found in a response.
+ * Plain hits are only saved along with the next change, as most responses have every field.
+ *
+ * @param field - Name of the field
+ * @param usedFallback - Whether only a fallback path found it
+ */
+export function recordHit(field: string, usedFallback: boolean): void {
+  updateRecord(field, record => {
+    if (record.formatChanged) {
+      Utils.log(`[BetterLyrics] ${field} is found on YouTube Music again`);
+    }
+    const needsSave = usedFallback || record.consecutiveMisses > 0;
+    record.hits++;
+    if (usedFallback) {
+      record.fallbackHits++;
+    }
+    record.consecutiveMisses = 0;
+    record.lastHitAt = Date.now();
+    record.formatChanged = false;
+    return needsSave;
+  });
+}
+
+/**
+ * Records that a field was missing from a response that should have had it.
+ *
+ * @param field - Name of the field
+ * @param missThreshold - Consecutive misses after which the format is reported as changed, null to never report it
+ * @param count - Misses to record at once, for callers that count a streak themselves
+ */
+export function recordMiss(field: string, missThreshold: number | null, count = 1): void {
+  updateRecord(field, record => {
+    record.misses += count;
+    record.consecutiveMisses += count;
+    record.lastMissAt = Date.now();
+    if (missThreshold !== null && record.consecutiveMisses >= missThreshold && !record.formatChanged) {
+      record.formatChanged = true;
+      const change = field.startsWith(Constants.DOM_FIELD_PREFIX)
+        ? "YTM layout changed"
+        : "YTM response format changed";
+      Utils.log(`[BetterLyrics] ${change}: ${field} missed ${record.consecutiveMisses} times in a row`);
+    }
+    return true;
+  });
+}
@@ -0,0 +1,52 @@
+import * as Constants from "@constants";
+import * as Utils from "@utils";
+import type { LyricSourceKey } from "./providers/shared";
+
+/**
+ * Choices the user made for a single song, stored per videoId.
+ */
+export interface SongPreferences {
+  preferredSource?: LyricSourceKey;
+  /** Added to the playback time when syncing lyrics, positive values show lyrics earlier */
+  timingOffsetMs?: number;
+}
+
+const SONG_PREFERENCES_PREFIX = "songPrefs_";
+
+export async function getSongPreferences(videoId: string): Promise<SongPreferences> {
+  const key = SONG_PREFERENCES_PREFIX + videoId;
+  try {
+    const result = await chrome.storage.local.get(key);
+    return (result[key] as SongPreferences) || {};
+  } catch (error) {
+    Utils.log(Constants.GENERAL_ERROR_LOG, error);
+    return {};
+  }
+}
+
+/**
+ * Updates a single preference for a song, removing it when the value is undefined.
+ */
+export async function setSongPreference<K extends keyof SongPreferences>(
+  videoId: string,
+  name: K,
+  value: SongPreferences[K]
+): Promise<void> {
+  const key = SONG_PREFERENCES_PREFIX + videoId;
+  try {
+    const preferences = await getSongPreferences(videoId);
+    if (value === undefined) {
+      delete preferences[name];
+    } else {
+      preferences[name] = value;
+    }
+
+    if (Object.keys(preferences).length === 0) {
+      await chrome.storage.local.remove(key);
+    } else {
+      await chrome.storage.local.set({ [key]: preferences });
+    }
+  } catch (error) {
+    Utils.log(Constants.GENERAL_ERROR_LOG, error);
+  }
+}
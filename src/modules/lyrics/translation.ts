@@ -1,6 +1,7 @@
 import * as Constants from "@constants";
 import * as Utils from "@utils";
 import * as Storage from "@core/storage";
+import * as LyricsCache from "@core/lyricsCache";
 
 export interface TranslationResult {
   originalLanguage: string;
@@ -17,6 +18,26 @@ let cache: Cache = {
   translation: new Map(),
 };
 
+/**
+ * Looks a translation up in the persistent cache, remembering it for the rest of the session when found.
+ */
+async function getPersistedTranslation<T>(map: Map<string, T>, kind: string, cacheKey: string): Promise<T | null> {
+  const result = await LyricsCache.getCachedTranslation<T>(`${kind}_${cacheKey}`).catch(err => {
+    Utils.log(Constants.TRANSLATION_ERROR_LOG, err);
+    return null;
+  });
+  if (result !== null) {
+    map.set(cacheKey, result);
+  }
+  return result;
+}
+
+function persistTranslation(kind: string, cacheKey: string, value: unknown): void {
+  LyricsCache.setCachedTranslation(`${kind}_${cacheKey}`, value).catch(err =>
+    Utils.log(Constants.TRANSLATION_ERROR_LOG, err)
+  );
+}
+
 export async function translateText(text: string, targetLanguage: string): Promise<TranslationResult | null> {
   let url = Constants.TRANSLATE_LYRICS_URL(targetLanguage, text);
 
@@ -24,6 +45,10 @@ export async function translateText(text: string, targetLanguage: string): Promi
   if (cache.translation.has(cacheKey)) {
     return cache.translation.get(cacheKey) as TranslationResult;
   }
+  const persisted = await getPersistedTranslation(cache.translation, "translation", cacheKey);
+  if (persisted) {
+    return persisted;
+  }
   return fetch(url, {
     cache: "force-cache",
   })
@@ -39,6 +64,7 @@ export async function translateText(text: string, targetLanguage: string): Promi
       } else {
         const result: TranslationResult = { originalLanguage, translatedText };
         cache.translation.set(cacheKey, result);
+        persistTranslation("translation", cacheKey, result);
         return result;
       }
     })
@@ -53,6 +79,10 @@ export async function translateTextIntoRomaji(lang: string, text: string): Promi
   if (cache.romanization.has(cacheKey)) {
     return cache.romanization.get(cacheKey) as string;
   }
+  const persisted = await getPersistedTranslation(cache.romanization, "romanization", cacheKey);
+  if (persisted) {
+    return persisted;
+  }
 
   let url = Constants.TRANSLATE_IN_ROMAJI(lang, text);
   return fetch(url, {
@@ -68,6 +98,7 @@ export async function translateTextIntoRomaji(lang: string, text: string): Promi
         return null;
       } else {
         cache.romanization.set(cacheKey, romanizedText);
+        persistTranslation("romanization", cacheKey, romanizedText);
         return romanizedText;
       }
     })
@@ -2,6 +2,8 @@ import * as DOM from "@modules/ui/dom";
 import * as Constants from "@constants";
 import * as Utils from "@core/utils";
 import * as Translation from "@modules/lyrics/translation";
+import * as Lyrics from "@modules/lyrics/lyrics";
+import * as Prefetch from "@modules/lyrics/prefetch";
 import * as Storage from "@core/storage";
 import { AppState } from "@/index";
 import * as BetterLyrics from "@/index";
@@ -179,6 +181,7 @@ export function listenForPopupMessages(): void {
       hideCursorOnIdle();
       handleSettings();
       loadTranslationSettings();
+      loadPrefetchSettings();
       AppState.shouldInjectAlbumArt = "Unknown";
       onAlbumArtEnabled(
         () => (AppState.shouldInjectAlbumArt = true),
@@ -197,6 +200,10 @@ export function listenForPopupMessages(): void {
       } catch {
         sendResponse({ success: false });
       }
+    } else if (request.action === "testProvider") {
+      Lyrics.testLyricsProvider(request.provider).then(sendResponse);
+      // Keeps the message channel open until the lookup finishes
+      return true;
     }
   });
 }
@@ -211,3 +218,13 @@ export function loadTranslationSettings(): void {
     AppState.translationLanguage = items.translationLanguage || "en";
   });
 }
+
+/**
+ * Loads how many upcoming songs to prefetch and reschedules prefetches to match.
+ */
+export function loadPrefetchSettings(): void {
+  Storage.getStorage({ prefetchCount: Constants.DEFAULT_PREFETCH_COUNT }, items => {
+    AppState.prefetchCount = Number(items.prefetchCount);
+    Prefetch.schedulePrefetch();
+  });
+}
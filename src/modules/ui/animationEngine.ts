@@ -2,6 +2,7 @@ import { AppState } from "@/index";
 import * as Constants from "@constants";
 import * as Utils from "@utils";
 import { isLoaderActive, isAdPlaying, showAdOverlay, hideAdOverlay } from "@modules/ui/dom";
+import * as DomLocator from "@modules/ui/domLocator";
 import { calculateLyricPositions, type LineData } from "@modules/lyrics/injectLyrics";
 
 const MIRCO_SCROLL_THRESHOLD_S = 0.3;
@@ -105,8 +106,7 @@ export function animationEngine(currentTime: number, eventCreationTime: number,
 
   currentTime += timeOffset / 1000;
 
-  const tabSelector = document.getElementsByClassName(Constants.TAB_HEADER_CLASS)[1] as HTMLElement;
-  console.assert(tabSelector != null);
+  const tabSelector = DomLocator.locate("lyricsTab");
 
   const playerState = document.getElementById("player-page")?.getAttribute("player-ui-state");
   const isPlayerOpen =
@@ -115,7 +115,7 @@ export function animationEngine(currentTime: number, eventCreationTime: number,
     playerState === "FULLSCREEN" ||
     playerState === "MINIPLAYER_IN_PLAYER_PAGE";
   // Don't tick lyrics if they're not visible
-  if (tabSelector.getAttribute("aria-selected") !== "true" || !isPlayerOpen) {
+  if (!tabSelector || tabSelector.getAttribute("aria-selected") !== "true" || !isPlayerOpen) {
     animEngineState.doneFirstInstantScroll = false;
     return;
   }
@@ -150,6 +150,13 @@ export function animationEngine(currentTime: number, eventCreationTime: number,
     } else {
       currentTime += getCSSDurationInMs(lyricsElement, "--blyrics-timing-offset") / 1000;
     }
+    currentTime += AppState.songTimingOffsetMs / 1000;
+
+    // Music video stretches that the lyrics' timeline doesn't have, like intros and skits
+    const isInUncoveredRegion = lyricData.uncoveredRegions.some(
+      region => currentTime >= region.start && currentTime < region.end
+    );
+    lyricsElement.classList.toggle(Constants.UNCOVERED_REGION_CLASS, isInUncoveredRegion);
 
     const lyricScrollTime = currentTime + getCSSDurationInMs(lyricsElement, "--blyrics-scroll-timing-offset") / 1000;
     let firstActiveElem: LineData | null = null;
@@ -283,7 +290,10 @@ export function animationEngine(currentTime: number, eventCreationTime: number,
 
     // lyricsHeight can change slightly due to animations
     const lyricsHeight = lyricsElement.getBoundingClientRect().height;
-    const tabRenderer = document.querySelector(Constants.TAB_RENDERER_SELECTOR) as HTMLElement;
+    const tabRenderer = DomLocator.locate("tabRenderer");
+    if (!tabRenderer) {
+      return;
+    }
     const tabRendererHeight = tabRenderer.getBoundingClientRect().height;
     let scrollTop = tabRenderer.scrollTop;
 
@@ -390,9 +400,7 @@ export function animationEngine(currentTime: number, eventCreationTime: number,
       animEngineState.skipScrolls = 1; // Always leave at least one for when the window is refocused.
     }
   } catch (err) {
-    if (!(err as Error).message?.includes("undefined")) {
-      Utils.log(Constants.LYRICS_CHECK_INTERVAL_ERROR, err);
-    }
+    Utils.log(Constants.LYRICS_CHECK_INTERVAL_ERROR, err);
   }
 }
 
@@ -1,6 +1,7 @@
 import * as Utils from "@utils";
 import * as Constants from "@constants";
 import * as Observer from "./observer";
+import * as DomLocator from "./domLocator";
 import { AppState } from "@/index";
 import { animEngineState, getResumeScrollElement, reflow, toMs } from "@modules/ui/animationEngine";
 
@@ -13,7 +14,10 @@ let lyricsObserver: MutationObserver | null = null;
  * @returns The lyrics wrapper element
  */
 export function createLyricsWrapper(): HTMLElement {
-  const tabRenderer = document.querySelector(Constants.TAB_RENDERER_SELECTOR) as HTMLElement;
+  const tabRenderer = DomLocator.locate("tabRenderer");
+  if (!tabRenderer) {
+    throw new Error("Couldn't find the tab renderer to add the lyrics to");
+  }
 
   tabRenderer.removeEventListener("scroll", Observer.scrollEventHandler);
   tabRenderer.addEventListener("scroll", Observer.scrollEventHandler);
@@ -44,6 +48,7 @@ export function createLyricsWrapper(): HTMLElement {
  * @param artist - Artist name
  * @param album - Album name
  * @param duration - Song duration in seconds
+ * @param matchDetails - Why the lyrics were accepted, shown when hovering the source
  */
 export function addFooter(
   source: string,
@@ -51,7 +56,8 @@ export function addFooter(
   song: string,
   artist: string,
   album: string,
-  duration: number
+  duration: number,
+  matchDetails?: string
 ): void {
   if (document.getElementsByClassName(Constants.FOOTER_CLASS).length !== 0) {
     document.getElementsByClassName(Constants.FOOTER_CLASS)[0].remove();
@@ -68,6 +74,9 @@ export function addFooter(
   sourceHref = sourceHref || "https://better-lyrics.boidu.dev/";
   footerLink.textContent = source;
   footerLink.href = sourceHref;
+  if (matchDetails) {
+    footerLink.title = matchDetails;
+  }
 }
 
 /**
@@ -142,6 +151,223 @@ export function createFooter(song: string, artist: string, album: string, durati
   }
 }
 
+export interface SourcePickerOption {
+  value: string;
+  label: string;
+}
+
+let refillSourcePicker: (() => void) | null = null;
+
+/**
+ * Adds a source picker to the footer. Call {@link refreshSourcePicker} when the sources that can be picked change,
+ * so sources that finish loading after the lyrics were shown still appear.
+ *
+ * @param currentValue - Value of the source currently shown
+ * @param getOptions - Returns the sources that can be picked
+ * @param onSelect - Called with the value of the picked source
+ */
+export function addSourcePicker(
+  currentValue: string,
+  getOptions: () => SourcePickerOption[],
+  onSelect: (value: string) => void
+): void {
+  const footer = document.getElementsByClassName(Constants.FOOTER_CLASS)[0];
+  if (!footer) {
+    Utils.log(Constants.FOOTER_NOT_VISIBLE_LOG);
+    return;
+  }
+
+  const pickerContainer = document.createElement("label");
+  pickerContainer.className = `${Constants.FOOTER_CLASS}__container ${Constants.FOOTER_CLASS}__source-picker`;
+  pickerContainer.appendChild(document.createTextNode("Switch source: "));
+
+  const picker = document.createElement("select");
+
+  let shownOptions = "";
+  const fillOptions = () => {
+    const options = getOptions();
+    const optionsKey = JSON.stringify(options);
+    if (optionsKey === shownOptions) {
+      return;
+    }
+    shownOptions = optionsKey;
+
+    picker.replaceChildren(
+      ...options.map(option => {
+        const optionElem = document.createElement("option");
+        optionElem.value = option.value;
+        optionElem.textContent = option.label;
+        optionElem.selected = option.value === currentValue;
+        return optionElem;
+      })
+    );
+  };
+  fillOptions();
+  refillSourcePicker = () => {
+    if (picker.isConnected) {
+      fillOptions();
+    }
+  };
+
+  picker.addEventListener("change", () => {
+    if (picker.value !== currentValue) {
+      onSelect(picker.value);
+    }
+  });
+
+  pickerContainer.appendChild(picker);
+  footer.insertBefore(pickerContainer, footer.children[1] ?? null);
+}
+
+/**
+ * Updates the options of the source picker in the footer, if there is one.
+ */
+export function refreshSourcePicker(): void {
+  refillSourcePicker?.();
+}
+
+const TIMING_OFFSET_CLASS = `${Constants.FOOTER_CLASS}__timing-offset`;
+
+function formatTimingOffset(offsetMs: number): string {
+  return `${offsetMs > 0 ? "+" : ""}${offsetMs}ms`;
+}
+
+/**
+ * Adds buttons to the footer that nudge the timing of the current song's lyrics.
+ *
+ * @param offsetMs - Current offset in milliseconds
+ * @param onNudge - Called with the number of milliseconds to add to the offset
+ */
+export function addTimingOffsetControls(offsetMs: number, onNudge: (deltaMs: number) => void): void {
+  const footer = document.getElementsByClassName(Constants.FOOTER_CLASS)[0];
+  if (!footer) {
+    Utils.log(Constants.FOOTER_NOT_VISIBLE_LOG);
+    return;
+  }
+
+  const controlsContainer = document.createElement("div");
+  controlsContainer.className = `${Constants.FOOTER_CLASS}__container ${TIMING_OFFSET_CLASS}`;
+  controlsContainer.appendChild(document.createTextNode("Timing: "));
+
+  const createNudgeButton = (deltaMs: number) => {
+    const button = document.createElement("button");
+    button.textContent = deltaMs > 0 ? `+${deltaMs}` : String(deltaMs);
+    button.title = `Show lyrics ${Math.abs(deltaMs)}ms ${deltaMs > 0 ? "earlier" : "later"}`;
+    button.addEventListener("click", () => onNudge(deltaMs));
+    return button;
+  };
+
+  const offsetLabel = document.createElement("span");
+  offsetLabel.className = `${TIMING_OFFSET_CLASS}-value`;
+  offsetLabel.textContent = formatTimingOffset(offsetMs);
+  offsetLabel.title = "Reset timing";
+  offsetLabel.addEventListener("click", () => onNudge(-AppState.songTimingOffsetMs));
+
+  controlsContainer.append(
+    createNudgeButton(-Constants.TIMING_OFFSET_LARGE_STEP_MS),
+    createNudgeButton(-Constants.TIMING_OFFSET_SMALL_STEP_MS),
+    offsetLabel,
+    createNudgeButton(Constants.TIMING_OFFSET_SMALL_STEP_MS),
+    createNudgeButton(Constants.TIMING_OFFSET_LARGE_STEP_MS)
+  );
+
+  const discordLink = footer.getElementsByClassName(`${Constants.FOOTER_CLASS}__discord`)[0];
+  footer.insertBefore(controlsContainer, discordLink ?? null);
+}
+
+/**
+ * Updates the offset shown by the timing controls in the footer.
+ *
+ * @param offsetMs - Current offset in milliseconds
+ */
+export function updateTimingOffsetControls(offsetMs: number): void {
+  const offsetLabel = document.getElementsByClassName(`${TIMING_OFFSET_CLASS}-value`)[0];
+  if (offsetLabel) {
+    offsetLabel.textContent = formatTimingOffset(offsetMs);
+  }
+}
+
+/**
+ * Adds an export menu to the footer.
+ *
+ * @param getOptions - Returns the formats the lyrics can be exported to
+ * @param onExport - Called with the value of the picked format
+ */
+export function addExportMenu(getOptions: () => SourcePickerOption[], onExport: (value: string) => void): void {
+  const footer = document.getElementsByClassName(Constants.FOOTER_CLASS)[0];
+  if (!footer) {
+    Utils.log(Constants.FOOTER_NOT_VISIBLE_LOG);
+    return;
+  }
+
+  const options = getOptions();
+  if (options.length === 0) {
+    return;
+  }
+
+  const menuContainer = document.createElement("label");
+  menuContainer.className = `${Constants.FOOTER_CLASS}__container ${Constants.FOOTER_CLASS}__export`;
+
+  const menu = document.createElement("select");
+  const placeholder = document.createElement("option");
+  placeholder.textContent = "Export lyrics";
+  placeholder.value = "";
+  placeholder.disabled = true;
+  placeholder.selected = true;
+  menu.appendChild(placeholder);
+
+  options.forEach(option => {
+    const optionElem = document.createElement("option");
+    optionElem.value = option.value;
+    optionElem.textContent = option.label;
+    menu.appendChild(optionElem);
+  });
+
+  menu.addEventListener("change", () => {
+    if (menu.value) {
+      onExport(menu.value);
+    }
+    // Go back to the placeholder so the same format can be exported again
+    menu.selectedIndex = 0;
+  });
+
+  menuContainer.appendChild(menu);
+  const discordLink = footer.getElementsByClassName(`${Constants.FOOTER_CLASS}__discord`)[0];
+  footer.insertBefore(menuContainer, discordLink ?? null);
+}
+
+/**
+ * Adds a button to the footer that pins the current song's lyrics in the cache.
+ *
+ * @param isPinned - Resolves to whether the song is already pinned
+ * @param onToggle - Toggles the pin and resolves to whether the song is pinned afterwards
+ */
+export function addPinButton(isPinned: Promise<boolean>, onToggle: () => Promise<boolean>): void {
+  const footer = document.getElementsByClassName(Constants.FOOTER_CLASS)[0];
+  if (!footer) {
+    Utils.log(Constants.FOOTER_NOT_VISIBLE_LOG);
+    return;
+  }
+
+  const pinButton = document.createElement("button");
+  pinButton.className = `${Constants.FOOTER_CLASS}__container ${Constants.FOOTER_CLASS}__pin`;
+
+  const setPinned = (pinned: boolean) => {
+    pinButton.textContent = pinned ? "Pinned" : "Pin lyrics";
+    pinButton.title = pinned ? "Let these lyrics be evicted from the cache again" : "Keep these lyrics cached";
+    pinButton.setAttribute("aria-pressed", String(pinned));
+  };
+  setPinned(false);
+  isPinned.then(setPinned);
+
+  pinButton.addEventListener("click", () => {
+    onToggle().then(setPinned);
+  });
+
+  const discordLink = footer.getElementsByClassName(`${Constants.FOOTER_CLASS}__discord`)[0];
+  footer.insertBefore(pinButton, discordLink ?? null);
+}
+
 let loaderMayBeActive = false;
 
 /**
@@ -157,7 +383,10 @@ export function renderLoader(small = false): void {
   loaderMayBeActive = true;
   try {
     clearTimeout(AppState.loaderAnimationEndTimeout);
-    const tabRenderer = document.querySelector(Constants.TAB_RENDERER_SELECTOR) as HTMLElement;
+    const tabRenderer = DomLocator.locate("tabRenderer");
+    if (!tabRenderer) {
+      return;
+    }
     let loaderWrapper = document.getElementById(Constants.LYRICS_LOADER_ID);
     if (!loaderWrapper) {
       loaderWrapper = document.createElement("div");
@@ -266,7 +495,7 @@ export function isAdPlaying(): boolean {
  */
 export function setupAdObserver(): void {
   const playerBar = document.querySelector(Constants.PLAYER_BAR_SELECTOR);
-  const tabRenderer = document.querySelector(Constants.TAB_RENDERER_SELECTOR) as HTMLElement;
+  const tabRenderer = DomLocator.locate("tabRenderer");
 
   if (!playerBar || !tabRenderer) {
     setTimeout(setupAdObserver, 1000);
@@ -299,7 +528,7 @@ export function setupAdObserver(): void {
  * Shows the advertisement overlay on the lyrics panel.
  */
 export function showAdOverlay(): void {
-  const tabRenderer = document.querySelector(Constants.TAB_RENDERER_SELECTOR) as HTMLElement;
+  const tabRenderer = DomLocator.locate("tabRenderer");
   if (!tabRenderer) {
     return;
   }
@@ -357,22 +586,24 @@ export function addAlbumArtToLayout(videoId: string): void {
   }
 
   const injectAlbumArtFn = () => {
-    const albumArt = document.querySelector(Constants.SONG_IMAGE_SELECTOR) as HTMLImageElement;
-    if (albumArt.src.startsWith("data:image")) {
+    const albumArt = DomLocator.locate("songImage") as HTMLImageElement | null;
+    if (!albumArt || albumArt.src.startsWith("data:image")) {
       injectAlbumArt("https://img.youtube.com/vi/" + videoId + "/0.jpg");
     } else {
       injectAlbumArt(albumArt.src);
     }
   };
 
-  const albumArt = document.querySelector(Constants.SONG_IMAGE_SELECTOR) as HTMLImageElement;
-  const observer = new MutationObserver(() => {
-    injectAlbumArtFn();
-    Utils.log(Constants.ALBUM_ART_ADDED_FROM_MUTATION_LOG);
-  });
+  const albumArt = DomLocator.locate("songImage") as HTMLImageElement | null;
+  if (albumArt) {
+    const observer = new MutationObserver(() => {
+      injectAlbumArtFn();
+      Utils.log(Constants.ALBUM_ART_ADDED_FROM_MUTATION_LOG);
+    });
 
-  observer.observe(albumArt, { attributes: true });
-  backgroundChangeObserver = observer;
+    observer.observe(albumArt, { attributes: true });
+    backgroundChangeObserver = observer;
+  }
 
   injectAlbumArtFn();
   Utils.log(Constants.ALBUM_ART_ADDED_LOG);
@@ -495,7 +726,7 @@ export function cleanup(): void {
     lyricsObserver = null;
   }
 
-  const ytMusicLyrics = (document.querySelector(Constants.NO_LYRICS_TEXT_SELECTOR) as HTMLElement)?.parentElement;
+  const ytMusicLyrics = DomLocator.locate("noLyricsText")?.parentElement;
   if (ytMusicLyrics) {
     ytMusicLyrics.style.display = "";
   }
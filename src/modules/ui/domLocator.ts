@@ -0,0 +1,171 @@
+/**
+ * @fileoverview Finds the YouTube Music elements Better Lyrics hooks into.
+ * Every hook has several ways to find its element (class, role, structure, text) tried in order,
+ * so a renamed class or a reordered tab falls back instead of breaking the lyrics panel.
+ * Results are cached until the page's DOM changes, and hooks that can't be found are reported
+ * to the diagnostics through the sniffer self-check.
+ */
+
+import * as Constants from "@constants";
+import * as SnifferHealth from "@modules/lyrics/snifferHealth";
+
+interface LocatorStrategy {
+  kind: "class" | "role" | "structure" | "text";
+  find: () => HTMLElement[];
+}
+
+interface HookDefinition {
+  strategies: LocatorStrategy[];
+  /** Whether the page should have the hook right now, lookups before that aren't counted as misses */
+  isExpected: () => boolean;
+}
+
+/** Lookups that find nothing in this many DOM states in a row report a layout change */
+const MISS_THRESHOLD = 20;
+
+const bySelector = (selector: string) => Array.from(document.querySelectorAll<HTMLElement>(selector));
+const byClass = (className: string) => Array.from(document.getElementsByClassName(className)) as HTMLElement[];
+const byText = (selector: string, text: RegExp) =>
+  bySelector(selector).filter(element => text.test(element.textContent?.trim() ?? ""));
+const pick = (elements: HTMLElement[], index: number) => (elements[index] ? [elements[index]] : []);
+
+const isPlayerPageLoaded = () => document.querySelector("ytmusic-player-page") !== null;
+
+const TAB_ROLE_SELECTOR = 'ytmusic-player-page [role="tab"]';
+const TAB_STRUCTURE_SELECTOR = "ytmusic-player-page tp-yt-paper-tabs tp-yt-paper-tab";
+
+const hooks = {
+  /** Headers of the Up next, Lyrics and Related tabs */
+  tabHeaders: {
+    strategies: [
+      { kind: "class", find: () => byClass(Constants.TAB_CONTENT_CLASS) },
+      { kind: "role", find: () => bySelector(TAB_ROLE_SELECTOR) },
+      { kind: "structure", find: () => bySelector(TAB_STRUCTURE_SELECTOR) },
+    ],
+    isExpected: isPlayerPageLoaded,
+  },
+  lyricsTab: {
+    strategies: [
+      { kind: "class", find: () => pick(byClass(Constants.TAB_HEADER_CLASS), 1) },
+      { kind: "role", find: () => pick(bySelector(TAB_ROLE_SELECTOR), 1) },
+      { kind: "structure", find: () => pick(bySelector(TAB_STRUCTURE_SELECTOR), 1) },
+      // Only matches English pages, but holds up when the tabs are reordered
+      { kind: "text", find: () => byText(`${TAB_ROLE_SELECTOR}, ${TAB_STRUCTURE_SELECTOR}`, /^lyrics$/i) },
+    ],
+    isExpected: isPlayerPageLoaded,
+  },
+  /** Scroll container of the tab contents, where the lyrics are injected */
+  tabRenderer: {
+    strategies: [
+      { kind: "structure", find: () => bySelector(Constants.TAB_RENDERER_SELECTOR) },
+      { kind: "structure", find: () => bySelector("ytmusic-player-page ytmusic-tab-renderer") },
+      { kind: "role", find: () => bySelector('ytmusic-player-page [role="tabpanel"]') },
+    ],
+    isExpected: isPlayerPageLoaded,
+  },
+  songImage: {
+    strategies: [
+      { kind: "structure", find: () => bySelector(Constants.SONG_IMAGE_SELECTOR) },
+      { kind: "structure", find: () => bySelector("ytmusic-player #song-image img") },
+      { kind: "structure", find: () => bySelector("ytmusic-player-page #thumbnail img") },
+    ],
+    isExpected: isPlayerPageLoaded,
+  },
+  /** Message YouTube Music shows in the lyrics tab for songs without lyrics */
+  noLyricsText: {
+    strategies: [
+      { kind: "structure", find: () => bySelector(Constants.NO_LYRICS_TEXT_SELECTOR) },
+      { kind: "structure", find: () => bySelector("ytmusic-tab-renderer ytmusic-message-renderer .text") },
+    ],
+    // Only there for songs without lyrics
+    isExpected: () => false,
+  },
+  fullscreenButton: {
+    strategies: [
+      { kind: "class", find: () => bySelector(Constants.FULLSCREEN_BUTTON_SELECTOR) },
+      { kind: "class", find: () => bySelector(`${Constants.PLAYER_BAR_SELECTOR} [class*="fullscreen"]`) },
+    ],
+    isExpected: () => document.querySelector(Constants.PLAYER_BAR_SELECTOR) !== null,
+  },
+} satisfies Record<string, HookDefinition>;
+
+export type DomHook = keyof typeof hooks;
+
+type HookOutcome = "primary" | "fallback" | "missing";
+
+interface HookState {
+  outcome: HookOutcome | null;
+  /** Lookups in a row that found nothing while the hook was expected */
+  missStreak: number;
+}
+
+const cache = new Map<DomHook, HTMLElement[]>();
+/** Only changes of a hook's outcome are reported, the DOM changes far too often to report every lookup */
+const hookStates = new Map<DomHook, HookState>();
+let cacheObserver: MutationObserver | null = null;
+
+function watchForDomChanges(): void {
+  if (cacheObserver) {
+    return;
+  }
+  cacheObserver = new MutationObserver(() => cache.clear());
+  cacheObserver.observe(document.documentElement, { childList: true, subtree: true });
+}
+
+function findHook(hook: DomHook): HTMLElement[] {
+  const definition: HookDefinition = hooks[hook];
+  const field = `${Constants.DOM_FIELD_PREFIX}${hook}`;
+  const state = hookStates.get(hook) ?? { outcome: null, missStreak: 0 };
+  hookStates.set(hook, state);
+
+  for (const [index, strategy] of definition.strategies.entries()) {
+    const elements = strategy.find();
+    if (elements.length > 0) {
+      const outcome = index > 0 ? "fallback" : "primary";
+      if (state.outcome !== outcome) {
+        SnifferHealth.recordHit(field, index > 0);
+      }
+      state.outcome = outcome;
+      state.missStreak = 0;
+      return elements;
+    }
+  }
+
+  if (definition.isExpected() && state.outcome !== "missing") {
+    state.missStreak++;
+    if (state.missStreak >= MISS_THRESHOLD) {
+      SnifferHealth.recordMiss(field, MISS_THRESHOLD, state.missStreak);
+      state.outcome = "missing";
+    }
+  }
+  return [];
+}
+
+/**
+ * Finds every element of a hook, through the first strategy that finds any.
+ *
+ * @param hook - Element to find
+ * @returns The elements in document order, empty if none of the strategies find them
+ */
+export function locateAll(hook: DomHook): HTMLElement[] {
+  watchForDomChanges();
+
+  const cached = cache.get(hook);
+  if (cached && cached.every(element => element.isConnected)) {
+    return cached;
+  }
+
+  const elements = findHook(hook);
+  cache.set(hook, elements);
+  return elements;
+}
+
+/**
+ * Finds the element of a hook.
+ *
+ * @param hook - Element to find
+ * @returns The element, or null if none of the strategies find it
+ */
+export function locate(hook: DomHook): HTMLElement | null {
+  return locateAll(hook)[0] ?? null;
+}
@@ -1,10 +1,14 @@
 import * as Settings from "@modules/settings/settings";
 import * as Dom from "./dom";
+import * as DomLocator from "./domLocator";
 import * as Constants from "@constants";
 import type { PlayerDetails } from "@/index";
 import * as BetterLyrics from "@/index";
 import { AppState } from "@/index";
 import * as Utils from "@utils";
+import { detectLyricsFormat, saveLocalLyrics } from "@core/localLyricsStore";
+import * as Lyrics from "@modules/lyrics/lyrics";
+import * as Prefetch from "@modules/lyrics/prefetch";
 import { animEngineState, getResumeScrollElement, animationEngine } from "@modules/ui/animationEngine";
 import {
   isPlayerPageOpen,
@@ -18,7 +22,7 @@ import {
  * Sets up a MutationObserver to watch for attribute changes.
  */
 export function enableLyricsTab(): void {
-  const tabSelector = document.getElementsByClassName(Constants.TAB_HEADER_CLASS)[1] as HTMLElement;
+  const tabSelector = DomLocator.locate("lyricsTab");
   if (!tabSelector) {
     setTimeout(() => {
       enableLyricsTab();
@@ -58,7 +62,7 @@ export function disableInertWhenFullscreen(): void {
           if (mutation.attributeName === "inert") {
             // entering fullscreen mode
             (mutation.target as HTMLElement).removeAttribute("inert");
-            const tabSelector = document.getElementsByClassName(Constants.TAB_HEADER_CLASS)[1] as HTMLElement;
+            const tabSelector = DomLocator.locate("lyricsTab");
             if (tabSelector && tabSelector.getAttribute("aria-selected") !== "true") {
               // ensure lyrics tab is selected
               tabSelector.click();
@@ -79,14 +83,17 @@ let scrollPositions = [0, 0, 0];
  * Handles lyrics reloading when the lyrics tab is clicked.
  */
 export function lyricReloader(): void {
-  const tabs = document.getElementsByClassName(Constants.TAB_CONTENT_CLASS);
+  const tabs = DomLocator.locateAll("tabHeaders");
 
   const [tab1, tab2, tab3] = Array.from(tabs);
 
   if (tab1 !== undefined && tab2 !== undefined && tab3 !== undefined) {
     for (let i = 0; i < tabs.length; i++) {
       tabs[i].addEventListener("click", () => {
-        const tabRenderer = document.querySelector(Constants.TAB_RENDERER_SELECTOR) as HTMLElement;
+        const tabRenderer = DomLocator.locate("tabRenderer");
+        if (!tabRenderer) {
+          return;
+        }
         scrollPositions[currentTab] = tabRenderer.scrollTop;
         tabRenderer.scrollTop = scrollPositions[i];
         setTimeout(() => {
@@ -146,6 +153,10 @@ export function initializeLyrics(): void {
         return;
       }
       Utils.log(Constants.SONG_SWITCHED_LOG, detail.videoId);
+      AppState.currentSong = detail;
+      // Lyrics of the previous song must not be exported or pasted over while the new ones load
+      AppState.currentLyrics = null;
+      Prefetch.onSongChange(detail);
 
       AppState.queueLyricInjection = true;
       AppState.queueAlbumArtInjection = true;
@@ -164,14 +175,14 @@ export function initializeLyrics(): void {
     }
 
     if (AppState.lyricInjectionFailed) {
-      const tabSelector = document.getElementsByClassName(Constants.TAB_HEADER_CLASS)[1];
+      const tabSelector = DomLocator.locate("lyricsTab");
       if (tabSelector && tabSelector.getAttribute("aria-selected") !== "true") {
         return; // wait to resolve until tab is visible
       }
     }
 
     if (AppState.queueLyricInjection || AppState.lyricInjectionFailed) {
-      const tabSelector = document.getElementsByClassName(Constants.TAB_HEADER_CLASS)[1] as HTMLElement;
+      const tabSelector = DomLocator.locate("lyricsTab");
       if (tabSelector) {
         AppState.queueLyricInjection = false;
         AppState.lyricInjectionFailed = false;
@@ -197,8 +208,8 @@ export function initializeLyrics(): void {
  * Manages autoscroll pause/resume functionality.
  */
 export function scrollEventHandler(): void {
-  const tabSelector = document.getElementsByClassName(Constants.TAB_HEADER_CLASS)[1];
-  if (tabSelector.getAttribute("aria-selected") !== "true" || !AppState.areLyricsTicking) {
+  const tabSelector = DomLocator.locate("lyricsTab");
+  if (!tabSelector || tabSelector.getAttribute("aria-selected") !== "true" || !AppState.areLyricsTicking) {
     return;
   }
 
@@ -216,6 +227,79 @@ export function scrollEventHandler(): void {
   }
 }
 
+/**
+ * Lets the user paste LRC, TTML or plain lyrics into the open lyrics panel.
+ * The pasted text is saved as local lyrics for the current song and the lyrics are reloaded.
+ */
+export function setupLocalLyricsPaste(): void {
+  document.addEventListener("paste", (event: ClipboardEvent) => {
+    const target = event.target as HTMLElement;
+    const isTypingInInput = target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable;
+    if (isTypingInInput) {
+      return;
+    }
+
+    const tabSelector = DomLocator.locate("lyricsTab");
+    const song = AppState.currentSong;
+    if (!tabSelector || tabSelector.getAttribute("aria-selected") !== "true" || !song) {
+      return;
+    }
+
+    const text = event.clipboardData?.getData("text/plain");
+    if (!text || text.trim().length === 0) {
+      return;
+    }
+
+    event.preventDefault();
+    Lyrics.getLyricsVideoId(song)
+      .then(videoId =>
+        saveLocalLyrics({
+          format: detectLyricsFormat(text),
+          text,
+          videoId,
+          song: song.song,
+          artist: song.artist,
+          duration: Number(song.duration),
+          fileName: null,
+        })
+      )
+      .then(() => {
+        Utils.log("[BetterLyrics] Saved pasted lyrics for", song.song, song.artist);
+        // Force a full reload instead of treating it as an audio/video switch
+        AppState.lastLoadedVideoId = null;
+        BetterLyrics.reloadLyrics();
+      })
+      .catch(err => {
+        Utils.log(Constants.GENERAL_ERROR_LOG, err);
+      });
+  });
+}
+
+/**
+ * Sets up Alt+[ and Alt+] to nudge the timing of the current song's lyrics.
+ * Holding Shift uses the larger step.
+ */
+export function setupTimingOffsetShortcuts(): void {
+  document.addEventListener("keydown", (event: KeyboardEvent) => {
+    if (!event.altKey || event.ctrlKey || event.metaKey) {
+      return;
+    }
+    if (event.code !== "BracketLeft" && event.code !== "BracketRight") {
+      return;
+    }
+
+    const target = event.target as HTMLElement;
+    const isTypingInInput = target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable;
+    if (isTypingInInput || !AppState.areLyricsLoaded || AppState.lyricData?.syncType === "none") {
+      return;
+    }
+
+    event.preventDefault();
+    const step = event.shiftKey ? Constants.TIMING_OFFSET_LARGE_STEP_MS : Constants.TIMING_OFFSET_SMALL_STEP_MS;
+    Lyrics.nudgeTimingOffset(event.code === "BracketRight" ? step : -step);
+  });
+}
+
 /**
  * Sets up a keyboard handler to intercept 'f' key presses on non-player pages.
  * When pressed, navigates to the player page first, then triggers fullscreen.
@@ -299,7 +383,7 @@ function setupFullscreenExitListener(): void {
 }
 
 function triggerFullscreen(): void {
-  const fullscreenButton = document.querySelector(Constants.FULLSCREEN_BUTTON_SELECTOR) as HTMLElement;
+  const fullscreenButton = DomLocator.locate("fullscreenButton");
 
   if (fullscreenButton) {
     fullscreenButton.click();
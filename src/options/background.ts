@@ -1,3 +1,38 @@
+import { LYRICS_CACHE_CHANGED_ACTION, type LyricsDbRequest, type LyricsDbResponse } from "@core/lyricsCache";
+import { lyricsDbMethods, lyricsDbMutations } from "@core/lyricsDb";
+import { migrateLyricsCache } from "@modules/lyrics/providers/cacheMigrations";
+
+/**
+ * Runs a lyrics cache operation for a content script, which can't open the extension's IndexedDB itself.
+ * Extension pages showing the cache are told to refresh after operations that change it.
+ */
+function handleLyricsDbRequest(request: LyricsDbRequest, sendResponse: (response: LyricsDbResponse) => void): void {
+  const method = lyricsDbMethods[request.method] as (...args: unknown[]) => Promise<unknown>;
+  if (!method) {
+    sendResponse({ error: `Unknown lyrics cache operation: ${request.method}` });
+    return;
+  }
+
+  method(...request.args)
+    .then(result => {
+      sendResponse({ result });
+      if (lyricsDbMutations.has(request.method)) {
+        chrome.runtime.sendMessage({ action: LYRICS_CACHE_CHANGED_ACTION }).catch(() => {
+          // No extension page is open
+        });
+      }
+    })
+    .catch(error => {
+      console.log("[BetterLyrics] Lyrics cache operation failed:", request.method, error);
+      sendResponse({ error: error instanceof Error ? error.message : String(error) });
+    });
+}
+
+// Cached lyrics may be in an older format after an update
+chrome.runtime.onInstalled.addListener(() => {
+  migrateLyricsCache();
+});
+
 /**
  * Handles runtime messages from extension components.
  * Processes CSS updates for YouTube Music tabs and settings updates.
@@ -8,8 +43,10 @@
  * @param {Object} [request.settings] - Settings object for updateSettings action
  * @returns {boolean} Returns true to indicate asynchronous response
  */
-chrome.runtime.onMessage.addListener(request => {
-  if (request.action === "updateCSS") {
+chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
+  if (request.action === "lyricsDb") {
+    handleLyricsDbRequest(request, sendResponse);
+  } else if (request.action === "updateCSS") {
     chrome.tabs.query({ url: "*://music.youtube.com/*" }, tabs => {
       tabs.forEach(tab => {
         if (tab.id != null) {
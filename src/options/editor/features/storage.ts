@@ -1,3 +1,4 @@
+import { moveLegacyLyricsCache } from "@core/lyricsCache";
 import type { SaveResult } from "../types";
 import { SYNC_STORAGE_LIMIT, MAX_RETRY_ATTEMPTS, CHUNK_SIZE, LOCAL_STORAGE_SAFE_LIMIT } from "../core/editor";
 import { syncIndicator } from "../ui/dom";
@@ -60,24 +61,19 @@ async function clearCSSChunks(): Promise<void> {
   }
 }
 
-async function clearLyricsCacheIfNeeded(requiredSpace: number): Promise<void> {
+async function moveLyricsCacheIfNeeded(requiredSpace: number): Promise<void> {
   const usage = await getStorageUsage();
   const availableSpace = usage.total - usage.used;
 
   console.log(`[BetterLyrics] Available space: ${availableSpace} bytes, Required: ${requiredSpace} bytes`);
 
   if (availableSpace < requiredSpace) {
-    console.log(`[BetterLyrics] Not enough space, clearing lyrics cache...`);
-    const allData = await chrome.storage.local.get(null);
-    const lyricsKeys = Object.keys(allData).filter(key => key.startsWith("blyrics_"));
+    // Lyrics are cached in IndexedDB now, but older versions may have left them here
+    console.log(`[BetterLyrics] Not enough space, moving cached lyrics out of extension storage...`);
+    await moveLegacyLyricsCache();
 
-    if (lyricsKeys.length > 0) {
-      console.log(`[BetterLyrics] Removing ${lyricsKeys.length} cached lyrics entries`);
-      await chrome.storage.local.remove(lyricsKeys);
-
-      const newUsage = await getStorageUsage();
-      console.log(`[BetterLyrics] Storage after cache clear: ${newUsage.used} / ${newUsage.total} bytes`);
-    }
+    const newUsage = await getStorageUsage();
+    console.log(`[BetterLyrics] Storage after moving the cache: ${newUsage.used} / ${newUsage.total} bytes`);
   }
 }
 
@@ -88,7 +84,7 @@ async function saveChunkedCSS(css: string): Promise<void> {
   console.log(`[BetterLyrics] Storage usage before save: ${storageUsage.used} / ${storageUsage.total} bytes`);
 
   const estimatedSize = css.length * 1.2;
-  await clearLyricsCacheIfNeeded(estimatedSize);
+  await moveLyricsCacheIfNeeded(estimatedSize);
 
   const chunks: string[] = [];
   for (let i = 0; i < css.length; i += CHUNK_SIZE) {
@@ -190,7 +186,7 @@ export const saveToStorageWithFallback = async (css: string, _isTheme = false, r
 
     if (strategy === "local") {
       const estimatedSize = compressedSize * 1.2;
-      await clearLyricsCacheIfNeeded(estimatedSize);
+      await moveLyricsCacheIfNeeded(estimatedSize);
       await chrome.storage.local.set({ customCSS: cssToStore, cssCompressed: shouldCompress });
       await chrome.storage.sync.set({ cssStorageType: "local", cssCompressed: shouldCompress });
       await clearCSSChunks();
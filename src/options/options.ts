@@ -1,5 +1,39 @@
 // Function to save user options
 import Sortable from "sortablejs";
+import {
+  deleteLocalLyrics,
+  detectLyricsFormat,
+  getLocalLyricsEntries,
+  readLrcMetadata,
+  saveLocalLyrics,
+} from "@core/localLyricsStore";
+import {
+  clearLyricsCache,
+  DEFAULT_LYRICS_CACHE_BUDGET,
+  deleteCachedLyrics,
+  enforceLyricsCacheBudget,
+  getLyricsCacheStats,
+  countCachedLyrics,
+  LYRICS_CACHE_BUDGET_KEY,
+  LYRICS_CACHE_CHANGED_ACTION,
+  type LyricsCacheEntry,
+  listLyricsCache,
+  pinSong,
+  unpinSong,
+} from "@core/lyricsCache";
+import {
+  DEFAULT_MATCH_MAX_DURATION_DELTA_S,
+  DEFAULT_MATCH_MIN_SCORE,
+  DEFAULT_MATCH_MIN_TEXT_SIMILARITY,
+  DEFAULT_PREFETCH_COUNT,
+  DOM_FIELD_PREFIX,
+  PROVIDER_HEALTH_KEY,
+  SNIFFER_HEALTH_KEY,
+} from "@constants";
+import type { MatchThresholds } from "@modules/lyrics/matchScore";
+import type { ProviderHealthMap, ProviderHealthRecord } from "@modules/lyrics/providers/providerHealth";
+import type { SnifferHealthMap } from "@modules/lyrics/snifferHealth";
+import type { LyricSourceResult, ProviderTestResult } from "@modules/lyrics/providers/shared";
 
 interface Options {
   isLogsEnabled: boolean;
@@ -11,6 +45,9 @@ interface Options {
   translationLanguage: string;
   isCursorAutoHideEnabled: boolean;
   isRomanizationEnabled: boolean;
+  lyricsCacheBudget: number;
+  prefetchCount: number;
+  matchThresholds: MatchThresholds;
   preferredProviderList: string[];
 }
 
@@ -57,6 +94,13 @@ const getOptionsFromForm = (): Options => {
     translationLanguage: (document.getElementById("translationLanguage") as HTMLInputElement).value,
     isCursorAutoHideEnabled: (document.getElementById("cursorAutoHide") as HTMLInputElement).checked,
     isRomanizationEnabled: (document.getElementById("isRomanizationEnabled") as HTMLInputElement).checked,
+    lyricsCacheBudget: Number((document.getElementById("lyricsCacheBudget") as HTMLSelectElement).value),
+    prefetchCount: Number((document.getElementById("prefetchCount") as HTMLSelectElement).value),
+    matchThresholds: {
+      minScore: Number((document.getElementById("matchMinScore") as HTMLSelectElement).value),
+      minTextSimilarity: Number((document.getElementById("matchMinTextSimilarity") as HTMLSelectElement).value),
+      maxDurationDeltaS: Number((document.getElementById("matchMaxDurationDelta") as HTMLSelectElement).value),
+    },
     preferredProviderList: preferredProviderList,
   };
 };
@@ -107,9 +151,12 @@ const showAlert = (message: string): void => {
 const clearTransientLyrics = (callback?: () => void): void => {
   chrome.tabs.query({ url: "https://music.youtube.com/*" }, tabs => {
     if (tabs.length === 0) {
-      updateCacheInfo(null);
-      showAlert("Cache cleared successfully!");
-      if (callback && typeof callback === "function") callback();
+      clearLyricsCache().then(() => {
+        renderCacheInfo();
+        renderCacheBrowser();
+        showAlert("Cache cleared successfully!");
+        if (callback && typeof callback === "function") callback();
+      });
       return;
     }
 
@@ -119,7 +166,8 @@ const clearTransientLyrics = (callback?: () => void): void => {
         completedTabs++;
         if (completedTabs === tabs.length) {
           if (response?.success) {
-            updateCacheInfo(null);
+            renderCacheInfo();
+            renderCacheBrowser();
             showAlert("Cache cleared successfully!");
           } else {
             showAlert("Failed to clear cache!");
@@ -145,35 +193,41 @@ const _formatBytes = (bytes: number, decimals = 2): string => {
 
 // Function to subscribe to cache info updates
 const subscribeToCacheInfo = (): void => {
-  chrome.storage.sync.get("cacheInfo", items => {
-    //@ts-ignore -- I'm lazy someone fix this
-    updateCacheInfo(items);
-  });
+  renderCacheInfo();
 
   chrome.storage.onChanged.addListener((changes, area) => {
-    if (area === "sync" && changes.cacheInfo) {
-      updateCacheInfo({ cacheInfo: changes.cacheInfo.newValue });
+    if (area === "sync" && (changes.cacheInfo || changes[LYRICS_CACHE_BUDGET_KEY])) {
+      renderCacheInfo();
+      renderCacheBrowser();
+    }
+  });
+
+  // The background tells extension pages when a YouTube Music tab changed the cache
+  chrome.runtime.onMessage.addListener(request => {
+    if (request.action === LYRICS_CACHE_CHANGED_ACTION) {
+      renderCacheInfo();
+      renderCacheBrowser();
+      renderProviderDiagnostics();
     }
   });
 };
 
 // Function to update cache info
-const updateCacheInfo = (items: { cacheInfo: { count: number; size: number } } | null): void => {
-  if (!items) {
-    showAlert("Nothing to clear!");
-    return;
-  }
-  const cacheInfo = items.cacheInfo || { count: 0, size: 0 };
-  const cacheCount = document.getElementById("lyrics-count")!;
-  const cacheSize = document.getElementById("cache-size")!;
-
-  cacheCount.textContent = cacheInfo.count.toString();
-  cacheSize.textContent = _formatBytes(cacheInfo.size);
+const renderCacheInfo = async (): Promise<void> => {
+  const stats = await getLyricsCacheStats();
+  const usedPercent = Math.min(Math.round((stats.size / stats.budget) * 100), 100);
+
+  document.getElementById("lyrics-count")!.textContent = stats.count.toString();
+  document.getElementById("cache-size")!.textContent = _formatBytes(stats.size);
+  document.getElementById("cache-budget")!.textContent = `${_formatBytes(stats.budget)} (${usedPercent}% used)`;
+  document.getElementById("pinned-count")!.textContent = stats.pinnedCount.toString();
 };
 
 // Function to restore user options
 const restoreOptions = (): void => {
   subscribeToCacheInfo();
+  subscribeToProviderDiagnostics();
+  renderSnifferStatus();
 
   const defaultOptions: Options = {
     isLogsEnabled: true,
@@ -185,21 +239,35 @@ const restoreOptions = (): void => {
     isTranslateEnabled: false,
     translationLanguage: "en",
     isRomanizationEnabled: false,
-    preferredProviderList: [
-      "bLyrics-richsynced",
-      "musixmatch-richsync",
-      "yt-captions",
-      "bLyrics-synced",
-      "lrclib-synced",
-      "musixmatch-synced",
-      "yt-lyrics",
-      "lrclib-plain",
-    ],
+    lyricsCacheBudget: DEFAULT_LYRICS_CACHE_BUDGET,
+    prefetchCount: DEFAULT_PREFETCH_COUNT,
+    matchThresholds: {
+      minScore: DEFAULT_MATCH_MIN_SCORE,
+      minTextSimilarity: DEFAULT_MATCH_MIN_TEXT_SIMILARITY,
+      maxDurationDeltaS: DEFAULT_MATCH_MAX_DURATION_DELTA_S,
+    },
+    preferredProviderList: [...defaultProviderOrder],
   };
 
-  chrome.storage.sync.get(defaultOptions, setOptionsInForm);
+  chrome.storage.sync.get(defaultOptions, items =>
+    // Storage defaults are shallow, thresholds saved before a new one was added miss it
+    setOptionsInForm({
+      ...(items as Options),
+      matchThresholds: { ...defaultOptions.matchThresholds, ...items.matchThresholds },
+    })
+  );
 
   document.getElementById("clear-cache")!.addEventListener("click", () => clearTransientLyrics());
+  document.getElementById("lyricsCacheBudget")!.addEventListener("change", event => {
+    // Shrinking the budget takes effect right away, even without a YouTube Music tab open
+    enforceLyricsCacheBudget(Number((event.target as HTMLSelectElement).value)).then(() => {
+      renderCacheInfo();
+      renderCacheBrowser();
+    });
+  });
+
+  setupLocalLyricsImport();
+  setupCacheBrowser();
 };
 
 // Function to set options in form elements
@@ -214,21 +282,21 @@ const setOptionsInForm = (items: Options): void => {
   (document.getElementById("translate") as HTMLInputElement).checked = items.isTranslateEnabled;
   (document.getElementById("translationLanguage") as HTMLInputElement).value = items.translationLanguage;
   (document.getElementById("isRomanizationEnabled") as HTMLInputElement).checked = items.isRomanizationEnabled;
+  (document.getElementById("lyricsCacheBudget") as HTMLSelectElement).value = String(items.lyricsCacheBudget);
+  (document.getElementById("prefetchCount") as HTMLSelectElement).value = String(items.prefetchCount);
+  (document.getElementById("matchMinScore") as HTMLSelectElement).value = String(items.matchThresholds.minScore);
+  (document.getElementById("matchMinTextSimilarity") as HTMLSelectElement).value = String(
+    items.matchThresholds.minTextSimilarity
+  );
+  (document.getElementById("matchMaxDurationDelta") as HTMLSelectElement).value = String(
+    items.matchThresholds.maxDurationDeltaS
+  );
 
   const providersListElem = document.getElementById("providers-list")!;
   providersListElem.innerHTML = "";
 
   // Always recreate in the default order to make sure no items go missing
-  let unseenProviders = [
-    "bLyrics-richsynced",
-    "musixmatch-richsync",
-    "yt-captions",
-    "bLyrics-synced",
-    "lrclib-synced",
-    "musixmatch-synced",
-    "yt-lyrics",
-    "lrclib-plain",
-  ];
+  let unseenProviders = [...defaultProviderOrder];
 
   for (let i = 0; i < items.preferredProviderList.length; i++) {
     const providerId = items.preferredProviderList[i];
@@ -245,25 +313,44 @@ const setOptionsInForm = (items: Options): void => {
   unseenProviders.forEach(p => {
     const providerElem = createProviderElem(p);
     if (providerElem === null) return;
-    providersListElem.appendChild(providerElem);
+    // Providers added in an update keep their default position, matching the content script
+    const defaultIndex = defaultProviderOrder.indexOf(p);
+    providersListElem.insertBefore(providerElem, providersListElem.children[defaultIndex] ?? null);
   });
+
+  renderProviderDiagnostics();
 };
-type SyncType = "syllable" | "word" | "line" | "unsynced";
+
+const defaultProviderOrder = [
+  "local",
+  "bLyrics-richsynced",
+  "musixmatch-richsync",
+  "yt-captions",
+  "bLyrics-synced",
+  "lrclib-synced",
+  "musixmatch-synced",
+  "yt-lyrics",
+  "lrclib-plain",
+];
+type SyncType = "syllable" | "word" | "line" | "unsynced" | "varies";
 
 interface ProviderInfo {
   name: string;
   syncType: SyncType;
+  /** Backend the provider's health is tracked under, null if it doesn't use the network */
+  service: string | null;
 }
 
 const providerIdToInfoMap: { [key: string]: ProviderInfo } = {
-  "musixmatch-richsync": { name: "Musixmatch", syncType: "word" },
-  "musixmatch-synced": { name: "Musixmatch", syncType: "line" },
-  "yt-captions": { name: "Youtube Captions", syncType: "line" },
-  "lrclib-synced": { name: "LRClib", syncType: "line" },
-  "bLyrics-richsynced": { name: "Better Lyrics", syncType: "syllable" },
-  "bLyrics-synced": { name: "Better Lyrics", syncType: "line" },
-  "yt-lyrics": { name: "Youtube", syncType: "unsynced" },
-  "lrclib-plain": { name: "LRClib", syncType: "unsynced" },
+  local: { name: "Local Files", syncType: "varies", service: null },
+  "musixmatch-richsync": { name: "Musixmatch", syncType: "word", service: "cubey" },
+  "musixmatch-synced": { name: "Musixmatch", syncType: "line", service: "cubey" },
+  "yt-captions": { name: "Youtube Captions", syncType: "line", service: "yt-captions" },
+  "lrclib-synced": { name: "LRClib", syncType: "line", service: "lrclib" },
+  "bLyrics-richsynced": { name: "Better Lyrics", syncType: "syllable", service: "bLyrics" },
+  "bLyrics-synced": { name: "Better Lyrics", syncType: "line", service: "bLyrics" },
+  "yt-lyrics": { name: "Youtube", syncType: "unsynced", service: "yt-lyrics" },
+  "lrclib-plain": { name: "LRClib", syncType: "unsynced", service: "lrclib" },
 };
 
 const syncTypeConfig: { [key in SyncType]: { label: string; icon: string; tooltip: string } } = {
@@ -287,6 +374,11 @@ const syncTypeConfig: { [key in SyncType]: { label: string; icon: string; toolti
     tooltip: "Lyrics without timing information. Unsynced lyrics provide a minimal experience.",
     icon: `<svg width="16" height="16" viewBox="0 0 1024 1024" fill="currentColor" xmlns="http://www.w3.org/2000/svg"><rect x="636" y="239" width="389.981" height="233.271" rx="48" fill-opacity="0.5"/><path d="M0 335C0 289.745 0 267.118 14.0589 253.059C28.1177 239 50.7452 239 96 239H213C243.17 239 258.255 239 267.627 248.373C277 257.745 277 272.83 277 303V408C277 438.17 277 453.255 267.627 462.627C258.255 472 243.17 472 213 472H96C50.7452 472 28.1177 472 14.0589 457.941C0 443.882 0 421.255 0 376V335Z" fill-opacity="0.5"/><path d="M337 304C337 273.83 337 258.745 346.373 249.373C355.745 240 370.83 240 401 240H460C505.255 240 527.882 240 541.941 254.059C556 268.118 556 290.745 556 336V377C556 422.255 556 444.882 541.941 458.941C527.882 473 505.255 473 460 473H401C370.83 473 355.745 473 346.373 463.627C337 454.255 337 439.17 337 409V304Z" fill-opacity="0.5"/><rect y="552.271" width="1024" height="233" rx="48" fill-opacity="0.5"/></svg>`,
   },
+  varies: {
+    label: "Varies",
+    tooltip: "Uses whatever timing the imported file has.",
+    icon: `<svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor" xmlns="http://www.w3.org/2000/svg"><path fill-rule="evenodd" d="M5.625 1.5H9a3.75 3.75 0 0 1 3.75 3.75v1.875c0 1.036.84 1.875 1.875 1.875H16.5a3.75 3.75 0 0 1 3.75 3.75v7.875c0 1.035-.84 1.875-1.875 1.875H5.625a1.875 1.875 0 0 1-1.875-1.875V3.375c0-1.036.84-1.875 1.875-1.875Z" clip-rule="evenodd"/><path d="M14.25 5.25a5.23 5.23 0 0 0-1.279-3.434 9.768 9.768 0 0 1 6.963 6.963A5.23 5.23 0 0 0 16.5 7.5h-1.875a.375.375 0 0 1-.375-.375V5.25Z"/></svg>`,
+  },
 };
 
 function createProviderElem(providerId: string, checked = true): HTMLLIElement | null {
@@ -336,6 +428,26 @@ function createProviderElem(providerId: string, checked = true): HTMLLIElement |
   tagElem.appendChild(tagLabel);
   liElem.appendChild(tagElem);
 
+  // Imported files aren't fetched from a backend, so there is no health to show or lookup to test
+  if (providerInfo.service) {
+    const diagnosticsElem = document.createElement("div");
+    diagnosticsElem.classList.add("provider-diagnostics");
+
+    const statsElem = document.createElement("div");
+    statsElem.classList.add("provider-diagnostics__stats");
+    statsElem.id = "p-" + providerId + "-stats";
+    diagnosticsElem.appendChild(statsElem);
+
+    const testElem = document.createElement("button");
+    testElem.classList.add("small-btn", "provider-diagnostics__test");
+    testElem.textContent = "Test";
+    testElem.title = "Look up the song playing in YouTube Music with only this provider";
+    testElem.addEventListener("click", () => testProvider(providerId, testElem));
+    diagnosticsElem.appendChild(testElem);
+
+    liElem.appendChild(diagnosticsElem);
+  }
+
   const styleFromCheckState = () => {
     if (checkboxElem.checked) {
       liElem.classList.remove("disabled-item");
@@ -354,11 +466,414 @@ function createProviderElem(providerId: string, checked = true): HTMLLIElement |
   return liElem;
 }
 
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+// Function to describe a provider's recent health and cache usage
+const formatProviderStats = (record: ProviderHealthRecord | undefined, cachedCount: number): string[] => {
+  const stats: string[] = [];
+  if (!record || !record.recentOutcomes || record.recentOutcomes.length === 0) {
+    stats.push("No requests yet");
+  } else {
+    const successes = record.recentOutcomes.filter(Boolean).length;
+    stats.push(`${Math.round((successes / record.recentOutcomes.length) * 100)}% success`);
+    if (record.recentLatenciesMs.length > 0) {
+      stats.push(`${Math.round(median(record.recentLatenciesMs))} ms median`);
+    }
+    if (record.state === "open") {
+      stats.push("paused after repeated failures");
+    }
+  }
+  stats.push(`${cachedCount} cached`);
+  return stats;
+};
+
+// Function to fill in the health and cache details of every provider row
+const renderProviderDiagnostics = async (): Promise<void> => {
+  const storage = await chrome.storage.local.get(PROVIDER_HEALTH_KEY);
+  const health = (storage[PROVIDER_HEALTH_KEY] as ProviderHealthMap) || {};
+  const providerIds = Object.keys(providerIdToInfoMap);
+  const cachedCounts = await Promise.all(providerIds.map(providerId => countCachedLyrics(providerId).catch(() => 0)));
+
+  Object.entries(providerIdToInfoMap).forEach(([providerId, providerInfo]) => {
+    const statsElem = document.getElementById("p-" + providerId + "-stats");
+    if (!statsElem || !providerInfo.service) return;
+
+    const record = health[providerInfo.service];
+    const cachedCount = cachedCounts[providerIds.indexOf(providerId)];
+    statsElem.textContent = formatProviderStats(record, cachedCount).join(" · ");
+
+    if (record?.lastError) {
+      const errorElem = document.createElement("span");
+      errorElem.classList.add("provider-diagnostics__error");
+      const when = record.lastFailureAt ? ` (${new Date(record.lastFailureAt).toLocaleString()})` : "";
+      errorElem.textContent = `Last error${when}: ${record.lastError}`;
+      statsElem.appendChild(errorElem);
+    }
+  });
+};
+
+// Function to show whether YouTube Music responses and pages still have the shape Better Lyrics expects
+const renderSnifferStatus = async (): Promise<void> => {
+  const storage = await chrome.storage.local.get(SNIFFER_HEALTH_KEY);
+  const health = (storage[SNIFFER_HEALTH_KEY] as SnifferHealthMap) || {};
+  const statusElem = document.getElementById("sniffer-status")!;
+  const records = Object.entries(health);
+  statusElem.classList.remove("sniffer-status--changed");
+
+  if (records.length === 0) {
+    statusElem.textContent = "";
+    return;
+  }
+
+  const changedFields = records.filter(([, record]) => record.formatChanged).map(([field]) => field);
+  const changedElements = changedFields.filter(field => field.startsWith(DOM_FIELD_PREFIX));
+  const changedResponseFields = changedFields.filter(field => !field.startsWith(DOM_FIELD_PREFIX));
+  if (changedFields.length > 0) {
+    const messages: string[] = [];
+    if (changedResponseFields.length > 0) {
+      messages.push(
+        `YTM response format changed: ${changedResponseFields.join(", ")} can no longer be read. ` +
+          "YouTube lyrics, albums and music video timing may be missing until Better Lyrics is updated."
+      );
+    }
+    if (changedElements.length > 0) {
+      messages.push(
+        `YTM layout changed: ${changedElements.join(", ")} can no longer be found. ` +
+          "Lyrics may not show up in the player until Better Lyrics is updated."
+      );
+    }
+    statusElem.classList.add("sniffer-status--changed");
+    statusElem.textContent = messages.join(" ");
+    return;
+  }
+
+  const fallbackFields = records.filter(([, record]) => record.fallbackHits > 0).map(([field]) => field);
+  statusElem.textContent =
+    fallbackFields.length > 0
+      ? `YouTube Music is read through fallbacks for ${fallbackFields.join(", ")}.`
+      : "YouTube Music responses and layout look as expected.";
+};
+
+// Function to keep the provider diagnostics up to date while the page is open
+const subscribeToProviderDiagnostics = (): void => {
+  chrome.storage.onChanged.addListener((changes, area) => {
+    if ((area === "local" && changes[PROVIDER_HEALTH_KEY]) || (area === "sync" && changes.cacheInfo)) {
+      renderProviderDiagnostics();
+    }
+    if (area === "local" && changes[SNIFFER_HEALTH_KEY]) {
+      renderSnifferStatus();
+    }
+  });
+};
+
+// Function to look up the playing song with a single provider
+const testProvider = (providerId: string, button: HTMLButtonElement): void => {
+  const providerName = providerIdToInfoMap[providerId].name;
+
+  chrome.tabs.query({ url: "https://music.youtube.com/*" }, tabs => {
+    const tab = tabs.find(tab => tab.audible) ?? tabs[0];
+    if (!tab) {
+      showAlert("Play a song in YouTube Music to test providers");
+      return;
+    }
+
+    button.disabled = true;
+    button.textContent = "Testing...";
+    chrome.tabs.sendMessage(
+      tab.id!,
+      { action: "testProvider", provider: providerId },
+      (result?: ProviderTestResult) => {
+        button.disabled = false;
+        button.textContent = "Test";
+
+        if (chrome.runtime.lastError || !result) {
+          showAlert("Couldn't reach YouTube Music, try reloading its tab");
+        } else if (!result.ok) {
+          showAlert(`${providerName} failed: ${result.error}`);
+        } else if (result.lineCount === 0) {
+          showAlert(`${providerName} answered in ${result.latencyMs} ms but has no lyrics for this song`);
+        } else {
+          showAlert(`${providerName} returned ${result.lineCount} lines in ${result.latencyMs} ms`);
+        }
+        renderProviderDiagnostics();
+      }
+    );
+  });
+};
+
+// Function to render the list of imported local lyrics
+const renderLocalLyricsList = async (): Promise<void> => {
+  const listElem = document.getElementById("local-lyrics-list")!;
+  const entries = await getLocalLyricsEntries();
+  listElem.innerHTML = "";
+
+  entries.forEach(entry => {
+    const itemElem = document.createElement("li");
+    itemElem.classList.add("local-lyrics-item");
+
+    const metaElem = document.createElement("div");
+    metaElem.classList.add("local-lyrics-item__meta");
+    const titleElem = document.createElement("span");
+    titleElem.textContent =
+      entry.song && entry.artist ? `${entry.song} - ${entry.artist}` : entry.fileName || "Pasted lyrics";
+    const detailElem = document.createElement("span");
+    detailElem.textContent = [
+      entry.format.toUpperCase(),
+      entry.videoId,
+      new Date(entry.importedAt).toLocaleDateString(),
+    ]
+      .filter(Boolean)
+      .join(" · ");
+    metaElem.append(titleElem, detailElem);
+
+    const deleteElem = document.createElement("button");
+    deleteElem.classList.add("small-btn", "btn-danger");
+    deleteElem.textContent = "Delete";
+    deleteElem.addEventListener("click", async () => {
+      await deleteLocalLyrics(entry.id);
+      renderLocalLyricsList();
+    });
+
+    itemElem.append(metaElem, deleteElem);
+    listElem.appendChild(itemElem);
+  });
+};
+
+// Function to set up the local lyrics import form
+const setupLocalLyricsImport = (): void => {
+  const fileInput = document.getElementById("local-lyrics-file") as HTMLInputElement;
+  const videoIdInput = document.getElementById("local-lyrics-video-id") as HTMLInputElement;
+  const songInput = document.getElementById("local-lyrics-song") as HTMLInputElement;
+  const artistInput = document.getElementById("local-lyrics-artist") as HTMLInputElement;
+  const durationInput = document.getElementById("local-lyrics-duration") as HTMLInputElement;
+
+  // Prefill the song details from LRC ID tags
+  fileInput.addEventListener("change", async () => {
+    const file = fileInput.files?.[0];
+    if (!file) return;
+    const metadata = readLrcMetadata(await file.text());
+    if (metadata.song && !songInput.value) songInput.value = metadata.song;
+    if (metadata.artist && !artistInput.value) artistInput.value = metadata.artist;
+    if (metadata.duration && !durationInput.value) durationInput.value = String(metadata.duration);
+  });
+
+  document.getElementById("local-lyrics-import")!.addEventListener("click", async () => {
+    const file = fileInput.files?.[0];
+    if (!file) {
+      showAlert("Choose a lyrics file first!");
+      return;
+    }
+
+    const text = await file.text();
+    const duration = Number(durationInput.value);
+    try {
+      await saveLocalLyrics({
+        format: detectLyricsFormat(text, file.name),
+        text,
+        videoId: videoIdInput.value.trim() || null,
+        song: songInput.value.trim() || null,
+        artist: artistInput.value.trim() || null,
+        duration: duration > 0 ? duration : null,
+        fileName: file.name,
+      });
+    } catch (_err) {
+      showAlert("Enter a video ID or a song and artist!");
+      return;
+    }
+
+    fileInput.value = "";
+    videoIdInput.value = "";
+    songInput.value = "";
+    artistInput.value = "";
+    durationInput.value = "";
+    showAlert("Lyrics imported successfully!");
+    renderLocalLyricsList();
+  });
+
+  renderLocalLyricsList();
+};
+
+// Function to read the lyrics stored in a cache entry, null if the entry can't be parsed
+const parseCachedLyrics = (
+  entry: LyricsCacheEntry
+): (LyricSourceResult & { song?: string; artist?: string }) | null => {
+  try {
+    return JSON.parse(entry.value);
+  } catch {
+    return null;
+  }
+};
+
+// Function to tell how well a cached result is synced
+const getCachedSyncLabel = (entry: LyricsCacheEntry, result: LyricSourceResult | null): string => {
+  const lyrics = result?.lyrics;
+  if (!lyrics || lyrics.length === 0) {
+    return "No lyrics";
+  }
+  if (lyrics.every(lyric => lyric.startTimeMs === 0)) {
+    return syncTypeConfig.unsynced.label;
+  }
+
+  const providerSyncType = providerIdToInfoMap[entry.source]?.syncType;
+  if (providerSyncType && providerSyncType !== "varies" && providerSyncType !== "unsynced") {
+    return syncTypeConfig[providerSyncType].label;
+  }
+  const isWordSynced = lyrics.some(lyric => lyric.parts?.some(part => part.durationMs > 0));
+  return syncTypeConfig[isWordSynced ? "word" : "line"].label;
+};
+
+// Function to describe when a cache entry goes away
+const formatCacheExpiry = (entry: LyricsCacheEntry): string => {
+  if (entry.expiresAt === null) {
+    return "Never expires";
+  }
+  return `Expires ${new Date(entry.expiresAt).toLocaleDateString()} if unused`;
+};
+
+// Function to create the row of a single cached result
+const createCacheEntryElem = (entry: LyricsCacheEntry, result: LyricSourceResult | null): HTMLLIElement => {
+  const entryElem = document.createElement("li");
+  entryElem.classList.add("cache-browser-entry");
+
+  const metaElem = document.createElement("div");
+  metaElem.classList.add("local-lyrics-item__meta");
+  const providerElem = document.createElement("span");
+  providerElem.textContent = providerIdToInfoMap[entry.source]?.name ?? entry.source;
+  const detailElem = document.createElement("span");
+  detailElem.textContent = [getCachedSyncLabel(entry, result), _formatBytes(entry.size), formatCacheExpiry(entry)].join(
+    " · "
+  );
+  metaElem.append(providerElem, detailElem);
+
+  const previewButton = document.createElement("button");
+  previewButton.classList.add("small-btn");
+  previewButton.textContent = "Preview";
+  previewButton.disabled = !result?.lyrics?.length;
+  previewButton.addEventListener("click", () => {
+    const existing = entryElem.querySelector(".cache-browser-entry__preview");
+    if (existing) {
+      existing.remove();
+      previewButton.textContent = "Preview";
+      return;
+    }
+    const previewElem = document.createElement("pre");
+    previewElem.classList.add("cache-browser-entry__preview");
+    previewElem.textContent = result!.lyrics!.map(lyric => lyric.words).join("\n");
+    entryElem.appendChild(previewElem);
+    previewButton.textContent = "Hide";
+  });
+
+  const deleteButton = document.createElement("button");
+  deleteButton.classList.add("small-btn", "btn-danger");
+  deleteButton.textContent = "Delete";
+  deleteButton.addEventListener("click", async () => {
+    await deleteCachedLyrics([entry.key]);
+    renderCacheInfo();
+    renderCacheBrowser();
+  });
+
+  entryElem.append(metaElem, previewButton, deleteButton);
+  return entryElem;
+};
+
+// Function to list the cached lyrics grouped by song
+const renderCacheBrowser = async (): Promise<void> => {
+  const listElem = document.getElementById("cache-browser-list")!;
+  const query = (document.getElementById("cache-browser-search") as HTMLInputElement).value.trim().toLowerCase();
+  const filter = (document.getElementById("cache-browser-filter") as HTMLSelectElement).value;
+
+  // Most recently used songs first
+  const songs = new Map<string, LyricsCacheEntry[]>();
+  (await listLyricsCache()).reverse().forEach(entry => {
+    const songEntries = songs.get(entry.videoId) ?? [];
+    songEntries.push(entry);
+    songs.set(entry.videoId, songEntries);
+  });
+
+  listElem.innerHTML = "";
+  songs.forEach((songEntries, videoId) => {
+    const pinned = songEntries[0].pinned;
+    if ((filter === "pinned" && !pinned) || (filter === "unpinned" && pinned)) {
+      return;
+    }
+
+    const results = songEntries.map(parseCachedLyrics);
+    const song = songEntries.find(entry => entry.song)?.song ?? results.find(result => result?.song)?.song;
+    const artist = songEntries.find(entry => entry.artist)?.artist ?? results.find(result => result?.artist)?.artist;
+    const title = song && artist ? `${song} - ${artist}` : song || videoId;
+
+    const searchText = [title, videoId, ...songEntries.map(entry => providerIdToInfoMap[entry.source]?.name)]
+      .join(" ")
+      .toLowerCase();
+    if (query && !searchText.includes(query)) {
+      return;
+    }
+
+    const songElem = document.createElement("li");
+    songElem.classList.add("cache-browser-song");
+
+    const headerElem = document.createElement("div");
+    headerElem.classList.add("cache-browser-song__header");
+    const metaElem = document.createElement("div");
+    metaElem.classList.add("local-lyrics-item__meta");
+    const titleElem = document.createElement("span");
+    titleElem.textContent = title;
+    const detailElem = document.createElement("span");
+    const size = songEntries.reduce((total, entry) => total + entry.size, 0);
+    detailElem.textContent = [videoId, `${songEntries.length} cached`, _formatBytes(size)].join(" · ");
+    metaElem.append(titleElem, detailElem);
+
+    const pinButton = document.createElement("button");
+    pinButton.classList.add("small-btn");
+    pinButton.textContent = pinned ? "Unpin" : "Pin";
+    pinButton.addEventListener("click", async () => {
+      if (pinned) {
+        await unpinSong(videoId);
+      } else {
+        await pinSong(videoId, song || videoId, artist || "");
+      }
+      renderCacheInfo();
+      renderCacheBrowser();
+    });
+
+    headerElem.append(metaElem, pinButton);
+
+    const entriesElem = document.createElement("ul");
+    entriesElem.classList.add("cache-browser-entries");
+    songEntries.forEach((entry, index) => entriesElem.appendChild(createCacheEntryElem(entry, results[index])));
+
+    songElem.append(headerElem, entriesElem);
+    listElem.appendChild(songElem);
+  });
+
+  if (listElem.children.length === 0) {
+    const emptyElem = document.createElement("li");
+    emptyElem.classList.add("cache-browser-empty");
+    emptyElem.textContent = songs.size === 0 ? "No lyrics are cached yet" : "No cached songs match";
+    listElem.appendChild(emptyElem);
+  }
+};
+
+// Function to set up searching and filtering the cache browser
+const setupCacheBrowser = (): void => {
+  document.getElementById("cache-browser-search")!.addEventListener("input", renderCacheBrowser);
+  document.getElementById("cache-browser-filter")!.addEventListener("change", renderCacheBrowser);
+  renderCacheBrowser();
+};
+
 // Event listeners
 document.addEventListener("DOMContentLoaded", restoreOptions);
-document.querySelectorAll("#options input, #options select").forEach(element => {
-  element.addEventListener("change", saveOptions);
-});
+document
+  .querySelectorAll(
+    "#options input:not(.local-lyrics-input):not(.cache-browser-input), #options select:not(.cache-browser-input)"
+  )
+  .forEach(element => {
+    element.addEventListener("change", saveOptions);
+  });
 
 // Tab switcher
 const tabButtons = document.querySelectorAll(".tab");
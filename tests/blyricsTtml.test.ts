@@ -0,0 +1,69 @@
+import assert from "node:assert/strict";
+import { readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, test } from "node:test";
+import { type ParsedTtml, parseTtml, serializeTtml } from "@modules/lyrics/providers/blyrics/blyrics";
+
+const FIXTURES_DIR = join(import.meta.dirname, "fixtures", "ttml");
+
+async function parseFixture(name: string): Promise<ParsedTtml> {
+  const parsed = await parseTtml(readFileSync(join(FIXTURES_DIR, `${name}.ttml`), "utf8"));
+  assert.ok(parsed, `${name} has no timing data`);
+  return parsed;
+}
+
+async function roundTrip(parsed: ParsedTtml): Promise<ParsedTtml> {
+  const reparsed = await parseTtml(serializeTtml(parsed.lyrics, { language: parsed.language }));
+  assert.ok(reparsed, "the serialized document has no timing data");
+  return reparsed;
+}
+
+describe("serializeTtml round trip", () => {
+  const names = readdirSync(FIXTURES_DIR)
+    .filter(file => file.endsWith(".ttml"))
+    .map(file => file.slice(0, -".ttml".length));
+
+  for (const name of names) {
+    test(name, async () => {
+      const parsed = await parseFixture(name);
+      assert.deepEqual(await roundTrip(parsed), parsed);
+    });
+  }
+
+  test("serializing twice gives the same document", async () => {
+    const parsed = await parseFixture("word-synced");
+    const serialized = serializeTtml(parsed.lyrics, { language: parsed.language });
+    const reparsed = await parseTtml(serialized);
+    assert.equal(serializeTtml(reparsed!.lyrics, { language: reparsed!.language }), serialized);
+  });
+});
+
+describe("serializeTtml fixtures", () => {
+  test("keep agents, background vocals, translations and timed romanizations", async () => {
+    const { lyrics } = await roundTrip(await parseFixture("word-synced"));
+
+    assert.deepEqual(
+      lyrics.map(lyric => lyric.agent),
+      ["v1", "v2", "v1000"]
+    );
+    assert.deepEqual(
+      lyrics[1].parts?.filter(part => part.isBackground).map(part => part.words),
+      ["(あ", "あ)"]
+    );
+    assert.deepEqual(lyrics[1].translation, { text: "Hold my hand (ah)", lang: "en" });
+    assert.equal(lyrics[0].romanization, "Yoru ni kakeru");
+    assert.equal(lyrics[0].timedRomanization?.[2].startTimeMs, 1700);
+  });
+
+  test("keep escaped text, plain romanizations and times past an hour", async () => {
+    const { lyrics, language, isWordSynced } = await roundTrip(await parseFixture("line-synced"));
+
+    assert.equal(language, "en");
+    assert.equal(isWordSynced, false);
+    assert.equal(lyrics[0].words, "Good morning & good night");
+    assert.equal(lyrics[0].translation?.text, "Guten Morgen & gute Nacht");
+    assert.equal(lyrics[1].words, '<Hola> "amigo"');
+    assert.equal(lyrics[1].romanization, "Ola");
+    assert.equal(lyrics[2].startTimeMs + lyrics[2].durationMs, 3723250);
+  });
+});
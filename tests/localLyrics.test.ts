@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, test } from "node:test";
+import { saveLocalLyrics } from "@core/localLyricsStore";
+import { LYRIC_CACHE_VERSION } from "@modules/lyrics/providers/cacheMigrations";
+import { getLyrics, newSourceMap, type ProviderParameters } from "@modules/lyrics/providers/shared";
+import { type FakeChrome, installFakeChrome } from "./support/chrome";
+
+const VIDEO_ID = "dQw4w9WgXcQ";
+
+function newProviderParameters(): ProviderParameters {
+  return {
+    song: "Never Gonna Give You Up",
+    artist: "Rick Astley",
+    duration: 213,
+    videoId: VIDEO_ID,
+    musicVideoType: null,
+    captionTracks: [],
+    publishYear: null,
+    thumbnails: [],
+    album: null,
+    sourceMap: newSourceMap(),
+    alwaysFetchMetadata: false,
+    signal: new AbortController().signal,
+    queryVariants: [],
+  };
+}
+
+function importLyrics() {
+  return saveLocalLyrics({
+    format: "lrc",
+    text: "[00:18.00]We're no strangers to love\n[00:22.00]You know the rules and so do I\n",
+    videoId: VIDEO_ID,
+    song: null,
+    artist: null,
+    duration: null,
+    fileName: "never-gonna.lrc",
+  });
+}
+
+describe("local lyrics source", () => {
+  let fakeChrome: FakeChrome;
+
+  beforeEach(() => {
+    fakeChrome = installFakeChrome();
+  });
+
+  test("a miss is not cached", async () => {
+    assert.equal(await getLyrics(newProviderParameters(), "local"), null);
+    assert.equal(fakeChrome.lyricsCache.has(`${VIDEO_ID}:local`), false);
+  });
+
+  test("lyrics imported after a miss are picked up", async () => {
+    assert.equal(await getLyrics(newProviderParameters(), "local"), null);
+
+    await importLyrics();
+    const result = await getLyrics(newProviderParameters(), "local");
+    assert.equal(result?.source, "Local file");
+    assert.equal(result?.lyrics?.length, 2);
+  });
+
+  test("misses cached by older versions are ignored", async () => {
+    fakeChrome.lyricsCache.set(`${VIDEO_ID}:local`, JSON.stringify({ version: LYRIC_CACHE_VERSION }));
+
+    await importLyrics();
+    const result = await getLyrics(newProviderParameters(), "local");
+    assert.equal(result?.lyrics?.length, 2);
+  });
+});
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, test } from "node:test";
+import { parseLRC } from "@modules/lyrics/providers/lrcUtils";
+
+const FIXTURES_DIR = join(import.meta.dirname, "fixtures", "lrc");
+
+interface LrcFixture {
+  songDuration: number;
+  expected: unknown[];
+}
+
+/**
+ * Parses an LRC fixture, dropping undefined fields so the result compares against the JSON expectation
+ * @param name - Fixture file name without extension
+ */
+function parseFixture(name: string) {
+  const fixture: LrcFixture = JSON.parse(readFileSync(join(FIXTURES_DIR, `${name}.json`), "utf8"));
+  const lrcText = readFileSync(join(FIXTURES_DIR, `${name}.lrc`), "utf8");
+  const lyrics = JSON.parse(JSON.stringify(parseLRC(lrcText, fixture.songDuration)));
+  return { fixture, lyrics };
+}
+
+describe("parseLRC fixtures", () => {
+  const names = readdirSync(FIXTURES_DIR)
+    .filter(file => file.endsWith(".lrc"))
+    .map(file => file.slice(0, -".lrc".length));
+
+  for (const name of names) {
+    test(name, () => {
+      const { fixture, lyrics } = parseFixture(name);
+      assert.deepEqual(lyrics, fixture.expected);
+    });
+  }
+});
+
+describe("parseLRC conformance", () => {
+  test("a line with several timestamps is emitted once per timestamp", () => {
+    const { lyrics } = parseFixture("repeated-timestamps");
+    const chorus = lyrics.filter((line: { words: string }) => line.words === "Chorus line");
+    assert.deepEqual(
+      chorus.map((line: { startTimeMs: number }) => line.startTimeMs),
+      [10000, 30000]
+    );
+  });
+
+  test("word timings of a repeated enhanced line follow each repeat", () => {
+    const { lyrics } = parseFixture("enhanced-repeated");
+    const repeat = lyrics.find((line: { startTimeMs: number }) => line.startTimeMs === 50000);
+    assert.equal(repeat.parts[0].startTimeMs, 50000);
+    assert.equal(repeat.parts[3].startTimeMs, 51500);
+  });
+
+  test("a positive offset makes lyrics appear earlier, in milliseconds", () => {
+    const { lyrics } = parseFixture("offset-positive");
+    assert.equal(lyrics[0].startTimeMs, 9500);
+  });
+
+  test("a negative offset makes lyrics appear later", () => {
+    const { lyrics } = parseFixture("offset-negative");
+    assert.equal(lyrics[0].startTimeMs, 10250);
+  });
+
+  test("a malformed offset is ignored", () => {
+    const { lyrics } = parseFixture("offset-invalid");
+    assert.equal(lyrics[0].startTimeMs, 10000);
+  });
+
+  test("the length tag overrides the song duration for the last line", () => {
+    const { lyrics } = parseFixture("length");
+    assert.equal(lyrics.at(-1).durationMs, 185500 - 180000);
+    const { lyrics: noFraction } = parseFixture("length-no-fraction");
+    assert.equal(noFraction.at(-1).durationMs, 150000 - 140000);
+  });
+});
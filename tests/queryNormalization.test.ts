@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { getPrimaryArtist, normalizeQuery } from "@modules/lyrics/queryNormalization";
+
+describe("getPrimaryArtist", () => {
+  test("keeps artists with an ampersand in their name whole", () => {
+    assert.equal(getPrimaryArtist("Simon & Garfunkel"), "Simon & Garfunkel");
+  });
+
+  test("keeps artists with a standalone x in their name whole", () => {
+    assert.equal(getPrimaryArtist("Lil Nas X"), "Lil Nas X");
+  });
+
+  test("splits on explicit separators", () => {
+    assert.equal(getPrimaryArtist("Daft Punk, Pharrell Williams"), "Daft Punk");
+    assert.equal(getPrimaryArtist("AC/DC / Foo Fighters"), "AC/DC");
+    assert.equal(getPrimaryArtist("Lil Nas X feat. Billy Ray Cyrus"), "Lil Nas X");
+    assert.equal(getPrimaryArtist("Armin van Buuren vs. Vini Vici"), "Armin van Buuren");
+  });
+});
+
+describe("normalizeQuery", () => {
+  test("leaves band names alone", () => {
+    const { canonical, variants } = normalizeQuery("The Boxer", "Simon & Garfunkel");
+    assert.deepEqual(canonical, { song: "The Boxer", artist: "Simon & Garfunkel" });
+    assert.deepEqual(variants, []);
+  });
+
+  test("drops featured artists before retrying with the primary artist", () => {
+    const { canonical, variants } = normalizeQuery("Old Town Road (feat. Billy Ray Cyrus)", "Lil Nas X");
+    assert.deepEqual(canonical, { song: "Old Town Road (feat. Billy Ray Cyrus)", artist: "Lil Nas X" });
+    assert.deepEqual(variants, [{ song: "Old Town Road", artist: "Lil Nas X" }]);
+  });
+
+  test("falls back to the first of several credited artists", () => {
+    const { variants } = normalizeQuery("Get Lucky", "Daft Punk, Pharrell Williams");
+    assert.deepEqual(variants, [{ song: "Get Lucky", artist: "Daft Punk" }]);
+  });
+
+  test("tries both scripts of a title with the full artist first", () => {
+    const { variants } = normalizeQuery("夜に駆ける (Yoru ni Kakeru)", "YOASOBI, Ayase");
+    assert.deepEqual(variants, [
+      { song: "夜に駆ける (Yoru ni Kakeru)", artist: "YOASOBI" },
+      { song: "夜に駆ける", artist: "YOASOBI, Ayase" },
+      { song: "夜に駆ける", artist: "YOASOBI" },
+      { song: "Yoru ni Kakeru", artist: "YOASOBI, Ayase" },
+      { song: "Yoru ni Kakeru", artist: "YOASOBI" },
+    ]);
+  });
+});
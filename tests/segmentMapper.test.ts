@@ -0,0 +1,139 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import type { SegmentMap } from "@modules/lyrics/requestSniffer";
+import { createSegmentMapper } from "@modules/lyrics/segmentMapper";
+
+/** Builds a segment map from [counterpart start, primary start, duration] triples in seconds */
+function segmentMap(...segments: [number, number, number][]): SegmentMap {
+  return {
+    segment: segments.map(([counterpartStart, primaryStart, duration]) => ({
+      counterpartVideoStartTimeMilliseconds: counterpartStart * 1000,
+      primaryVideoStartTimeMilliseconds: primaryStart * 1000,
+      durationMilliseconds: duration * 1000,
+    })),
+  };
+}
+
+// A music video with a 10s intro and a 10s skit after the second segment, the segments touch on the song's side
+const musicVideo = createSegmentMapper(
+  segmentMap(
+    [60, 80, 30],
+    [0, 10, 30],
+    [30, 40, 30],
+    // Empty segments are ignored
+    [45, 0, 0]
+  )
+);
+
+// The song has a verse between 20s and 30s that the video cuts
+const cutVerse = createSegmentMapper(segmentMap([10, 0, 10], [30, 10, 10]));
+
+// The video plays the second half of the song first
+const reordered = createSegmentMapper(segmentMap([0, 30, 20], [20, 0, 20]));
+
+describe("mapTime", () => {
+  test("shifts times by the segment that covers them", () => {
+    assert.equal(musicVideo.mapTime(5), 15);
+    assert.equal(musicVideo.mapTime(75), 95);
+  });
+
+  test("maps a time where segments touch through the segment it opens", () => {
+    assert.equal(musicVideo.mapTime(30), 40);
+  });
+
+  test("maps the end of the last segment", () => {
+    assert.equal(musicVideo.mapTime(90), 110);
+  });
+
+  test("has no mapping outside of the segments", () => {
+    assert.equal(musicVideo.mapTime(-1), null);
+    assert.equal(musicVideo.mapTime(95), null);
+    assert.equal(cutVerse.mapTime(25), null);
+  });
+
+  test("maps through out of order segments", () => {
+    assert.equal(reordered.mapTime(10), 40);
+    assert.equal(reordered.mapTime(30), 10);
+  });
+});
+
+describe("mapRange", () => {
+  test("maps both ends of a range that crosses a segment boundary", () => {
+    assert.deepEqual(musicVideo.mapRange(25, 35), { start: 35, end: 45 });
+    assert.deepEqual(musicVideo.mapRange(55, 65), { start: 65, end: 85 });
+  });
+
+  test("maps an empty range to a point", () => {
+    assert.deepEqual(musicVideo.mapRange(5, 5), { start: 15, end: 15 });
+    assert.deepEqual(musicVideo.mapRange(5, 3), { start: 15, end: 15 });
+    assert.equal(musicVideo.mapRange(95, 95), null);
+  });
+
+  test("clamps an uncovered end to the segment of the start", () => {
+    assert.deepEqual(musicVideo.mapRange(85, 95), { start: 105, end: 110 });
+    assert.deepEqual(cutVerse.mapRange(15, 25), { start: 5, end: 10 });
+  });
+
+  test("clamps an uncovered start to the segment of the end", () => {
+    assert.deepEqual(cutVerse.mapRange(5, 15), { start: 0, end: 5 });
+    assert.deepEqual(cutVerse.mapRange(25, 35), { start: 10, end: 15 });
+  });
+
+  test("maps a range with uncovered ends to the segment inside it", () => {
+    assert.deepEqual(cutVerse.mapRange(5, 45), { start: 0, end: 10 });
+  });
+
+  test("has no mapping for a range without any segment", () => {
+    assert.equal(cutVerse.mapRange(22, 28), null);
+    assert.equal(musicVideo.mapRange(95, 100), null);
+  });
+
+  test("keeps the start segment's part of a range whose end maps before its start", () => {
+    assert.deepEqual(reordered.mapRange(15, 25), { start: 45, end: 50 });
+  });
+});
+
+describe("fallbackOffset", () => {
+  test("uses the shift of the last segment starting before the time", () => {
+    assert.equal(musicVideo.fallbackOffset(5), 10);
+    assert.equal(musicVideo.fallbackOffset(95), 20);
+    assert.equal(cutVerse.fallbackOffset(25), -10);
+    assert.equal(reordered.fallbackOffset(25), -20);
+  });
+
+  test("is zero before the first segment", () => {
+    assert.equal(cutVerse.fallbackOffset(5), 0);
+  });
+});
+
+describe("uncoveredRegions", () => {
+  test("lists the intro, gaps between segments and the outro", () => {
+    assert.deepEqual(musicVideo.uncoveredRegions, [
+      { start: 0, end: 10 },
+      { start: 70, end: 80 },
+      { start: 110, end: Infinity },
+    ]);
+  });
+
+  test("has no intro when the first segment starts the video", () => {
+    assert.deepEqual(cutVerse.uncoveredRegions, [{ start: 20, end: Infinity }]);
+  });
+
+  test("orders regions by their place in the video", () => {
+    assert.deepEqual(reordered.uncoveredRegions, [
+      { start: 20, end: 30 },
+      { start: 50, end: Infinity },
+    ]);
+  });
+
+  test("ignores rounding gaps between adjacent segments", () => {
+    const mapper = createSegmentMapper(segmentMap([0, 0, 10], [10, 10.1, 10]));
+    assert.deepEqual(mapper.uncoveredRegions, [{ start: 20.1, end: Infinity }]);
+  });
+
+  test("is empty without segments", () => {
+    const mapper = createSegmentMapper(segmentMap());
+    assert.deepEqual(mapper.uncoveredRegions, []);
+    assert.equal(mapper.mapTime(10), null);
+  });
+});
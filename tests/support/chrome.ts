@@ -0,0 +1,56 @@
+/**
+ * In-memory stand-in for the chrome APIs the lyrics modules use, with the lyrics cache database
+ * answered the way the background answers content scripts.
+ */
+
+import type { CachedLyricsInput } from "@core/lyricsDb";
+
+export interface FakeChrome {
+  storage: Map<string, unknown>;
+  /** Cached lyrics by `${videoId}:${source}` */
+  lyricsCache: Map<string, string>;
+}
+
+export function installFakeChrome(): FakeChrome {
+  const storage = new Map<string, unknown>();
+  const lyricsCache = new Map<string, string>();
+
+  const get = async (keys: string | string[] | null) => {
+    const wanted = keys === null ? [...storage.keys()] : [keys].flat();
+    return Object.fromEntries(wanted.filter(key => storage.has(key)).map(key => [key, storage.get(key)]));
+  };
+
+  const sendMessage = async (request: { action: string; method: string; args: unknown[] }) => {
+    switch (request.method) {
+      case "getLyrics": {
+        const [videoId, source] = request.args as [string, string];
+        return { result: lyricsCache.get(`${videoId}:${source}`) ?? null };
+      }
+      case "putLyrics":
+        (request.args[0] as CachedLyricsInput[]).forEach(input => {
+          lyricsCache.set(`${input.videoId}:${input.source}`, input.value);
+        });
+        return { result: undefined };
+      default:
+        return { error: `${request.method} is not faked` };
+    }
+  };
+
+  (globalThis as { chrome?: unknown }).chrome = {
+    storage: {
+      local: {
+        get,
+        set: async (items: Record<string, unknown>) => {
+          Object.entries(items).forEach(([key, value]) => storage.set(key, value));
+        },
+        remove: async (keys: string | string[]) => {
+          [keys].flat().forEach(key => storage.delete(key));
+        },
+      },
+      onChanged: { addListener: () => {} },
+    },
+    runtime: { sendMessage },
+  };
+
+  return { storage, lyricsCache };
+}
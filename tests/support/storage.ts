@@ -0,0 +1 @@
+export async function saveCacheInfo(): Promise<void> {}
@@ -0,0 +1 @@
+export function log(..._args: unknown[]): void {}